@@ -4,22 +4,37 @@
  * Component for entities that can receive user input events like clicks and hovers.
  * Provides bounds checking and event callback support.
  * 
+ * Hit testing happens in the entity's local space: `containsPoint` transforms
+ * the point through the entity's TransformComponent, so rotation, scale and
+ * parent transforms are respected. The shape's box spans `width` x `height`
+ * and is positioned by the anchor (0,0 = top-left at the entity origin,
+ * 0.5,0.5 = centered). Circles use `width` as their diameter, so their box
+ * is `width` x `width`, and are centered on the entity origin by default.
+ * 
  * @example
  * ```typescript
  * const interactable = new InteractableComponent(100, 50, {
  *   onClick: (x, y) => console.log('Clicked at', x, y),
- *   shape: 'circle'
+ *   shape: 'ellipse',
+ *   anchorX: 0.5,
+ *   anchorY: 0.5
  * });
+ * 
+ * if (interactable.containsPoint(mouse.x, mouse.y, transform)) { ... }
  * ```
  */
 
 import { Component } from '../ecs/Component';
+import type { TransformComponent, Vector2 } from './TransformComponent';
 
 /** Callback function for interaction events */
 export type InteractionCallback = (x: number, y: number, event?: PointerEvent) => void;
 
 /** Shape type for bounds checking */
-export type InteractionShape = 'rectangle' | 'circle';
+export type InteractionShape = 'rectangle' | 'circle' | 'ellipse' | 'polygon' | 'capsule' | 'custom';
+
+/** Custom hit test predicate, receives the point in the entity's local space (offset applied) */
+export type HitTestPredicate = (localX: number, localY: number) => boolean;
 
 export interface InteractableOptions {
   /** Callback when entity is clicked */
@@ -38,6 +53,16 @@ export interface InteractableOptions {
   offsetX?: number;
   /** Y offset from entity position */
   offsetY?: number;
+  /** Horizontal anchor as a fraction of width (0 = left, 0.5 = center, 1 = right; circles default to 0.5) */
+  anchorX?: number;
+  /** Vertical anchor as a fraction of height (0 = top, 0.5 = center, 1 = bottom; circles default to 0.5) */
+  anchorY?: number;
+  /** Polygon vertices in local space (for 'polygon' shape) */
+  points?: Vector2[];
+  /** Hit test predicate (for 'custom' shape) */
+  hitTest?: HitTestPredicate;
+  /** Let clicks and hovers continue to entities underneath this one */
+  passThrough?: boolean;
 }
 
 export class InteractableComponent extends Component {
@@ -53,13 +78,16 @@ export class InteractableComponent extends Component {
   /** Pointer leave callback */
   public onPointerLeave: InteractionCallback | null = null;
   
-  /** Width of the interactive area (or radius for circle) */
+  /** Width of the interactive area (diameter for circle) */
   public readonly width: number;
   
-  /** Height of the interactive area (ignored for circle) */
+  /** Height of the interactive area (ignored for circle and polygon) */
   public readonly height: number;
   
-  /** Whether interaction is currently enabled */
+  /**
+   * Whether interaction is currently enabled
+   * This is the flag hit testing checks; Component.enabled is not used.
+   */
   public interactive: boolean;
   
   /** Shape type for bounds checking */
@@ -71,12 +99,27 @@ export class InteractableComponent extends Component {
   /** Y offset from entity position */
   public offsetY: number;
   
+  /** Horizontal anchor as a fraction of width */
+  public anchorX: number;
+  
+  /** Vertical anchor as a fraction of height */
+  public anchorY: number;
+  
+  /** Polygon vertices in local space (for 'polygon' shape) */
+  public points: Vector2[];
+  
+  /** Hit test predicate (for 'custom' shape) */
+  public hitTest: HitTestPredicate | null;
+  
+  /** Whether clicks and hovers continue to entities underneath this one */
+  public passThrough: boolean;
+  
   /** Whether pointer is currently over this entity */
   private _isHovered: boolean = false;
 
   /**
    * Create a new InteractableComponent
-   * @param width - Width of interactive area (or radius for circle)
+   * @param width - Width of interactive area (diameter for circle)
    * @param height - Height of interactive area (defaults to width for square)
    * @param options - Interaction options
    */
@@ -88,6 +131,13 @@ export class InteractableComponent extends Component {
     this.shape = options?.shape ?? 'rectangle';
     this.offsetX = options?.offsetX ?? 0;
     this.offsetY = options?.offsetY ?? 0;
+    // Circles are centered by default, as they were before anchors existed
+    const defaultAnchor = this.shape === 'circle' ? 0.5 : 0;
+    this.anchorX = options?.anchorX ?? defaultAnchor;
+    this.anchorY = options?.anchorY ?? defaultAnchor;
+    this.points = options?.points ?? [];
+    this.hitTest = options?.hitTest ?? null;
+    this.passThrough = options?.passThrough ?? false;
     
     if (options?.onClick) this.onClick = options.onClick;
     if (options?.onHover) this.onHover = options.onHover;
@@ -100,7 +150,24 @@ export class InteractableComponent extends Component {
   }
 
   /**
-   * Check if a point is inside the interactive bounds
+   * Check if a world-space point is inside the interactive bounds,
+   * taking the entity's position, rotation and scale into account
+   * @param x - Point X coordinate
+   * @param y - Point Y coordinate
+   * @param transform - The entity's transform
+   * @returns True if point is inside bounds
+   */
+  public containsPoint(x: number, y: number, transform: TransformComponent): boolean {
+    if (!this.interactive) {
+      return false;
+    }
+
+    const local = transform.worldToLocal({ x, y });
+    return this.containsLocalPoint(local.x, local.y);
+  }
+
+  /**
+   * Check if a point is inside the interactive bounds, ignoring rotation and scale
    * @param x - Point X coordinate
    * @param y - Point Y coordinate
    * @param entityX - Entity X position
@@ -112,24 +179,85 @@ export class InteractableComponent extends Component {
       return false;
     }
 
-    const localX = entityX + this.offsetX;
-    const localY = entityY + this.offsetY;
-
-    if (this.shape === 'circle') {
-      // Circle collision (width is used as radius)
-      const dx = x - localX;
-      const dy = y - localY;
-      const distanceSquared = dx * dx + dy * dy;
-      return distanceSquared <= this.width * this.width;
-    } else {
-      // Rectangle collision (AABB)
-      return (
-        x >= localX &&
-        x <= localX + this.width &&
-        y >= localY &&
-        y <= localY + this.height
-      );
+    return this.containsLocalPoint(x - entityX, y - entityY);
+  }
+
+  /**
+   * Check if a point in the entity's local space is inside the shape
+   * @param x - Local X coordinate (relative to the entity origin)
+   * @param y - Local Y coordinate (relative to the entity origin)
+   * @returns True if point is inside the shape
+   */
+  public containsLocalPoint(x: number, y: number): boolean {
+    const px = x - this.offsetX;
+    const py = y - this.offsetY;
+
+    switch (this.shape) {
+      case 'polygon':
+        return this.isPointInPolygon(px, py);
+      case 'custom':
+        return this.hitTest ? this.hitTest(px, py) : false;
+      default:
+        break;
+    }
+
+    // Box shapes are positioned by the anchor
+    const height = this.getBoxHeight();
+    const left = -this.anchorX * this.width;
+    const top = -this.anchorY * height;
+    const bx = px - left;
+    const by = py - top;
+
+    if (this.shape === 'ellipse' || this.shape === 'circle') {
+      const rx = this.width / 2;
+      const ry = height / 2;
+      if (rx <= 0 || ry <= 0) {
+        return false;
+      }
+      const dx = (bx - rx) / rx;
+      const dy = (by - ry) / ry;
+      return dx * dx + dy * dy <= 1;
+    }
+
+    if (this.shape === 'capsule') {
+      // Stadium: rounded ends along the longer axis
+      const radius = Math.min(this.width, this.height) / 2;
+      const horizontal = this.width >= this.height;
+      const length = (horizontal ? this.width : this.height) - radius * 2;
+      const along = (horizontal ? bx : by) - radius;
+      const across = (horizontal ? by : bx) - radius;
+      const clamped = Math.max(0, Math.min(length, along));
+      const dx = along - clamped;
+      return dx * dx + across * across <= radius * radius;
+    }
+
+    // Rectangle
+    return bx >= 0 && bx <= this.width && by >= 0 && by <= this.height;
+  }
+
+  /**
+   * Height of the anchored box (circles are as tall as they are wide)
+   */
+  private getBoxHeight(): number {
+    return this.shape === 'circle' ? this.width : this.height;
+  }
+
+  /**
+   * Even-odd point in polygon test against the local points
+   */
+  private isPointInPolygon(x: number, y: number): boolean {
+    const points = this.points;
+    let inside = false;
+
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const pi = points[i]!;
+      const pj = points[j]!;
+      if ((pi.y > y) !== (pj.y > y) && x < ((pj.x - pi.x) * (y - pi.y)) / (pj.y - pi.y) + pi.x) {
+        inside = !inside;
+      }
     }
+
+    return inside;
   }
 
   /**
@@ -223,7 +351,7 @@ export class InteractableComponent extends Component {
 
   /**
    * Set the shape for bounds checking
-   * @param shape - 'rectangle' or 'circle'
+   * @param shape - Shape type
    */
   public setShape(shape: InteractionShape): this {
     this.shape = shape;
@@ -242,20 +370,77 @@ export class InteractableComponent extends Component {
   }
 
   /**
-   * Get the bounds as a rectangle (for debugging/visualization)
+   * Set the anchor used to position box shapes
+   * @param x - Horizontal anchor as a fraction of width
+   * @param y - Vertical anchor as a fraction of height (defaults to x)
+   */
+  public setAnchor(x: number, y?: number): this {
+    this.anchorX = x;
+    this.anchorY = y ?? x;
+    return this;
+  }
+
+  /**
+   * Use a polygon shape
+   * @param points - Vertices in local space
+   */
+  public setPolygon(points: Vector2[]): this {
+    this.shape = 'polygon';
+    this.points = points;
+    return this;
+  }
+
+  /**
+   * Use a custom hit test predicate
+   * @param hitTest - Receives the point in local space (offset applied)
+   */
+  public setHitTest(hitTest: HitTestPredicate): this {
+    this.shape = 'custom';
+    this.hitTest = hitTest;
+    return this;
+  }
+
+  /**
+   * Get the bounds in local space, before rotation and scale
+   */
+  public getLocalBounds(): { x: number; y: number; width: number; height: number } {
+    if (this.shape === 'polygon' && this.points.length > 0) {
+      const xs = this.points.map(p => p.x);
+      const ys = this.points.map(p => p.y);
+      const minX = Math.min(...xs);
+      const minY = Math.min(...ys);
+      return {
+        x: this.offsetX + minX,
+        y: this.offsetY + minY,
+        width: Math.max(...xs) - minX,
+        height: Math.max(...ys) - minY
+      };
+    }
+
+    const height = this.getBoxHeight();
+    return {
+      x: this.offsetX - this.anchorX * this.width,
+      y: this.offsetY - this.anchorY * height,
+      width: this.width,
+      height
+    };
+  }
+
+  /**
+   * Get the bounds as a rectangle, ignoring rotation and scale (for debugging/visualization)
    * @param entityX - Entity X position
    * @param entityY - Entity Y position
    */
   public getBounds(entityX: number, entityY: number): { x: number; y: number; width: number; height: number } {
+    const bounds = this.getLocalBounds();
     return {
-      x: entityX + this.offsetX,
-      y: entityY + this.offsetY,
-      width: this.width,
-      height: this.height
+      ...bounds,
+      x: entityX + bounds.x,
+      y: entityY + bounds.y
     };
   }
 
   public override toString(): string {
-    return `${super.toString()}\nInteractive: ${this.interactive}\nShape: ${this.shape}\nSize: ${this.width}x${this.height}\nOffset: (${this.offsetX}, ${this.offsetY})\nHovered: ${this._isHovered}`;
+    return `${super.toString()}\nInteractive: ${this.interactive}\nShape: ${this.shape}\nSize: ${this.width}x${this.height}\nOffset: (${this.offsetX}, ${this.offsetY})\nAnchor: (${this.anchorX}, ${this.anchorY})\nHovered: ${this._isHovered}`;
   }
 }
@@ -57,6 +57,7 @@ export class RenderableComponent extends Component {
     
     // Apply initial properties to graphics
     this.graphics.visible = this.visible;
+    this.graphics.zIndex = this.zIndex;
     this.graphics.alpha = this.alpha;
     this.graphics.tint = this.tint;
   }
@@ -4,22 +4,44 @@
  * Represents the spatial properties of an entity in 2D space.
  * Handles position, rotation, and scale transformations.
  * 
+ * Position, rotation and scale are local to the nearest ancestor entity with
+ * a TransformComponent (or to world space for root entities). World-space
+ * values are computed from the parent chain and cached until the transform
+ * or one of its ancestors changes.
+ * 
  * @example
  * ```typescript
  * const transform = new TransformComponent(100, 200);
  * transform.setPosition(150, 250);
  * transform.rotate(Math.PI / 4);
  * transform.setScale(2, 2);
+ * 
+ * const muzzle = turretTransform.localToWorld({ x: 20, y: 0 });
  * ```
  */
 
 import { Component } from '../ecs/Component';
+import type { Entity } from '../ecs/Entity';
 
 export interface Vector2 {
   x: number;
   y: number;
 }
 
+/**
+ * 2D affine matrix in the same layout as PixiJS:
+ * | a c tx |
+ * | b d ty |
+ */
+export interface Matrix2D {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  tx: number;
+  ty: number;
+}
+
 export interface TransformOptions {
   x?: number;
   y?: number;
@@ -29,10 +51,10 @@ export interface TransformOptions {
 }
 
 export class TransformComponent extends Component {
-  /** X position in world space */
+  /** X position in parent space (world space for root entities) */
   public x: number;
   
-  /** Y position in world space */
+  /** Y position in parent space (world space for root entities) */
   public y: number;
   
   /** Rotation in radians */
@@ -44,6 +66,29 @@ export class TransformComponent extends Component {
   /** Scale factor on Y axis */
   public scaleY: number;
 
+  /** Entity this transform is attached to */
+  private _entity: Entity | null = null;
+
+  /** Cached world matrix */
+  private readonly _worldMatrix: Matrix2D = { a: 1, b: 0, c: 0, d: 1, tx: 0, ty: 0 };
+
+  /** Incremented whenever the cached world matrix is recomputed */
+  private _worldVersion: number = 0;
+
+  /** Whether the cached world matrix must be recomputed */
+  private _dirty: boolean = true;
+
+  /** Local values the cached world matrix was computed from */
+  private _cachedX: number = 0;
+  private _cachedY: number = 0;
+  private _cachedRotation: number = 0;
+  private _cachedScaleX: number = 1;
+  private _cachedScaleY: number = 1;
+
+  /** Parent transform and parent version the cached world matrix was computed from */
+  private _cachedParent: TransformComponent | null = null;
+  private _cachedParentVersion: number = -1;
+
   /**
    * Create a new TransformComponent
    * @param x - Initial X position (default: 0)
@@ -63,6 +108,16 @@ export class TransformComponent extends Component {
     return 'Transform';
   }
 
+  public override onAttach(entity: Entity): void {
+    this._entity = entity;
+    this._dirty = true;
+  }
+
+  public override onDetach(): void {
+    this._entity = null;
+    this._dirty = true;
+  }
+
   /**
    * Set the position of the transform
    * @param x - New X position
@@ -215,6 +270,179 @@ export class TransformComponent extends Component {
     });
   }
 
+  /**
+   * Get the transform of the nearest ancestor entity that has one
+   * @returns Parent TransformComponent, or null for root transforms
+   */
+  public getParentTransform(): TransformComponent | null {
+    let ancestor = this._entity?.getParent() ?? null;
+    while (ancestor) {
+      const transform = ancestor.getComponent<TransformComponent>('Transform');
+      if (transform) {
+        return transform;
+      }
+      ancestor = ancestor.getParent();
+    }
+    return null;
+  }
+
+  /**
+   * Force the world matrix to be recomputed on next access
+   */
+  public markDirty(): this {
+    this._dirty = true;
+    return this;
+  }
+
+  /**
+   * Check if the local values changed since the world matrix was last computed
+   */
+  public isDirty(): boolean {
+    return (
+      this._dirty ||
+      this.x !== this._cachedX ||
+      this.y !== this._cachedY ||
+      this.rotation !== this._cachedRotation ||
+      this.scaleX !== this._cachedScaleX ||
+      this.scaleY !== this._cachedScaleY
+    );
+  }
+
+  /**
+   * Recompute the cached world matrix if this transform or an ancestor changed
+   * @returns True if the world matrix was recomputed
+   */
+  public updateWorldMatrix(): boolean {
+    const parent = this.getParentTransform();
+    if (parent) {
+      parent.updateWorldMatrix();
+    }
+    return this.updateFromParent(parent);
+  }
+
+  /**
+   * Recompute the cached world matrix from a parent whose matrix is up to date
+   * Used when walking a hierarchy from the roots down (see TransformSystem).
+   * @param parent - Transform of the nearest ancestor with one, or null
+   * @param parentChanged - Whether the parent's world matrix was just recomputed
+   * @returns True if the world matrix was recomputed
+   */
+  public updateFromParent(parent: TransformComponent | null, parentChanged: boolean = false): boolean {
+    const parentVersion = parent ? parent._worldVersion : -1;
+    if (!parentChanged && !this.isDirty() &&
+        parent === this._cachedParent && parentVersion === this._cachedParentVersion) {
+      return false;
+    }
+
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+    const la = cos * this.scaleX;
+    const lb = sin * this.scaleX;
+    const lc = -sin * this.scaleY;
+    const ld = cos * this.scaleY;
+
+    const m = this._worldMatrix;
+    if (parent) {
+      const p = parent._worldMatrix;
+      m.a = p.a * la + p.c * lb;
+      m.b = p.b * la + p.d * lb;
+      m.c = p.a * lc + p.c * ld;
+      m.d = p.b * lc + p.d * ld;
+      m.tx = p.a * this.x + p.c * this.y + p.tx;
+      m.ty = p.b * this.x + p.d * this.y + p.ty;
+    } else {
+      m.a = la;
+      m.b = lb;
+      m.c = lc;
+      m.d = ld;
+      m.tx = this.x;
+      m.ty = this.y;
+    }
+
+    this._cachedX = this.x;
+    this._cachedY = this.y;
+    this._cachedRotation = this.rotation;
+    this._cachedScaleX = this.scaleX;
+    this._cachedScaleY = this.scaleY;
+    this._cachedParent = parent;
+    this._cachedParentVersion = parentVersion;
+    this._dirty = false;
+    this._worldVersion++;
+    return true;
+  }
+
+  /**
+   * Get the world matrix (local space to world space)
+   * @returns Cached matrix - copy it if you need to keep it
+   */
+  public getWorldMatrix(): Readonly<Matrix2D> {
+    this.updateWorldMatrix();
+    return this._worldMatrix;
+  }
+
+  /**
+   * Get the position in world space
+   * @returns Vector2 containing world x and y coordinates
+   */
+  public getWorldPosition(): Vector2 {
+    const m = this.getWorldMatrix();
+    return { x: m.tx, y: m.ty };
+  }
+
+  /**
+   * Get the rotation in world space
+   * @returns Rotation angle in radians
+   */
+  public getWorldRotation(): number {
+    const m = this.getWorldMatrix();
+    return Math.atan2(m.b, m.a);
+  }
+
+  /**
+   * Get the scale in world space
+   * @returns Vector2 containing world scale factors
+   */
+  public getWorldScale(): Vector2 {
+    const m = this.getWorldMatrix();
+    const sign = m.a * m.d - m.b * m.c < 0 ? -1 : 1;
+    return {
+      x: Math.sqrt(m.a * m.a + m.b * m.b),
+      y: sign * Math.sqrt(m.c * m.c + m.d * m.d)
+    };
+  }
+
+  /**
+   * Convert a point from this transform's local space to world space
+   * @param point - Point in local space
+   * @returns Point in world space
+   */
+  public localToWorld(point: Vector2): Vector2 {
+    const m = this.getWorldMatrix();
+    return {
+      x: m.a * point.x + m.c * point.y + m.tx,
+      y: m.b * point.x + m.d * point.y + m.ty
+    };
+  }
+
+  /**
+   * Convert a point from world space to this transform's local space
+   * @param point - Point in world space
+   * @returns Point in local space (NaN if the transform has zero scale)
+   */
+  public worldToLocal(point: Vector2): Vector2 {
+    const m = this.getWorldMatrix();
+    const det = m.a * m.d - m.b * m.c;
+    if (det === 0) {
+      return { x: NaN, y: NaN };
+    }
+    const dx = point.x - m.tx;
+    const dy = point.y - m.ty;
+    return {
+      x: (m.d * dx - m.c * dy) / det,
+      y: (m.a * dy - m.b * dx) / det
+    };
+  }
+
   public override toString(): string {
     return `${super.toString()}\nPosition: (${this.x.toFixed(2)}, ${this.y.toFixed(2)})\nRotation: ${this.getRotationDegrees().toFixed(2)}°\nScale: (${this.scaleX.toFixed(2)}, ${this.scaleY.toFixed(2)})`;
   }
@@ -0,0 +1,483 @@
+/**
+ * Base Game Engine
+ *
+ * Renderer- and platform-independent part of the engine: owns the World,
+ * event bus, input and resources and runs one frame of the simulation
+ * (fixed steps, update, event flush, render phase) when asked to.
+ * Subclasses provide the clock that drives frames and the actual drawing.
+ * Nothing in here touches PixiJS or the DOM.
+ */
+
+import { World } from '../ecs/World';
+import { EventBus } from '../events/EventBus';
+import type { GamepadConnectionEvent } from '../input/GamepadInput';
+import type {
+  DragGestureEvent,
+  PinchGestureEvent,
+  TapGestureEvent,
+  WheelGestureEvent,
+} from '../input/GestureRecognizer';
+import { InputManager, InputManagerOptions } from '../input/InputManager';
+import { ResourceManager } from '../services/ResourceManager';
+import { FrameProfiler, FrameSection, ProfilerReport } from './Profiler';
+
+export interface BaseEngineOptions {
+  debug?: boolean;
+  /**
+   * Run systems' fixedUpdate at this interval in seconds (e.g. 1 / 60).
+   * Omit to only run the variable-rate update phase.
+   */
+  fixedTimeStep?: number;
+  /** Maximum fixed steps per frame before the backlog is dropped (default: 5) */
+  maxSubSteps?: number;
+  /** Input options, e.g. a fake getGamepads for tests (events go to the engine bus) */
+  input?: InputManagerOptions;
+  /** Start with profiling enabled (see enableProfiling) */
+  profile?: boolean;
+  /** Frames kept for profiling statistics (default: 120) */
+  profileWindow?: number;
+  /** Frames between 'engine:frameStats' events while profiling (default: 60) */
+  statsInterval?: number;
+}
+
+/**
+ * Engine lifecycle events
+ */
+export interface EngineUpdateEvent {
+  /** Simulation time for this frame in seconds (scaled by timeScale, 0 while paused) */
+  deltaTime: number;
+  /** Real time for this frame in seconds */
+  unscaledDeltaTime: number;
+  timestamp: number;
+  /** Interpolation between the last and next fixed step (0-1, 1 without a fixed time step) */
+  alpha: number;
+}
+
+/**
+ * Fixed update event, fired before each fixed step
+ */
+export interface EngineFixedUpdateEvent {
+  fixedDeltaTime: number;
+  /** Index of the step within the current frame */
+  step: number;
+}
+
+/**
+ * Built-in engine events and their payloads
+ *
+ * Game events can be added through declaration merging so they are
+ * type-checked on `engine.events` as well:
+ *
+ * @example
+ * ```typescript
+ * declare module '@raejuli/core-engine-gdk' {
+ *   interface EngineEvents {
+ *     'tower:placed': { x: number; y: number };
+ *   }
+ * }
+ * ```
+ */
+export interface EngineEvents {
+  'engine:started': Record<string, never>;
+  'engine:stopped': Record<string, never>;
+  'engine:paused': Record<string, never>;
+  'engine:resumed': Record<string, never>;
+  'engine:fixedUpdate': EngineFixedUpdateEvent;
+  'engine:preUpdate': EngineUpdateEvent;
+  'engine:postUpdate': EngineUpdateEvent;
+  'engine:preRender': EngineUpdateEvent;
+  'engine:postRender': EngineUpdateEvent;
+  'engine:frameStats': ProfilerReport;
+  'gamepad:connected': GamepadConnectionEvent;
+  'gamepad:disconnected': GamepadConnectionEvent;
+  'gesture:dragStart': DragGestureEvent;
+  'gesture:dragMove': DragGestureEvent;
+  'gesture:dragEnd': DragGestureEvent;
+  'gesture:doubleClick': TapGestureEvent;
+  'gesture:longPress': TapGestureEvent;
+  'gesture:pinchStart': PinchGestureEvent;
+  'gesture:pinch': PinchGestureEvent;
+  'gesture:pinchEnd': PinchGestureEvent;
+  'pointer:wheel': WheelGestureEvent;
+}
+
+/**
+ * BaseEngine - Shared game loop for all engine variants
+ *
+ * Lifecycle Events:
+ * - 'engine:preUpdate' - Fired before world update
+ * - 'engine:fixedUpdate' - Fired before each fixed step (with fixedTimeStep)
+ * - 'engine:postUpdate' - Fired after world update
+ * - 'engine:preRender' - Fired before rendering
+ * - 'engine:postRender' - Fired after rendering
+ * - 'engine:started' - Fired when engine starts
+ * - 'engine:stopped' - Fired when engine stops
+ * - 'engine:paused' - Fired when the simulation is paused
+ * - 'engine:resumed' - Fired when the simulation is resumed
+ *
+ * Events queued with `events.enqueue()` are flushed once per frame, after the
+ * world update and before 'engine:postUpdate'.
+ *
+ * Fixed Time Step:
+ * With `fixedTimeStep` set, frame time is collected in an accumulator and
+ * `World.fixedUpdate` runs once per elapsed step (at most `maxSubSteps` per
+ * frame) before the variable-rate `World.update`. `World.render` then
+ * receives the leftover fraction of a step as interpolation alpha.
+ *
+ * Time Control:
+ * `timeScale` scales simulation time (slow motion below 1, fast-forward
+ * above 1). `pause()` freezes the update and fixed update phases of all
+ * systems except those with `runWhilePaused` (e.g. UI), which receive real
+ * time; input, events and rendering keep running. `step(n)` advances the
+ * simulation by exactly n frames, paused or not, ignoring `timeScale`.
+ *
+ * Profiling:
+ * `enableProfiling()` (or the `profile` option) measures the update, event
+ * dispatch and render sections of every frame and each system's time and
+ * entity count. `getProfile()` returns averages, p95 and max over the last
+ * `profileWindow` frames; frames run by `step()` count as frames without a
+ * render section. Profiling is off by default.
+ */
+export abstract class BaseEngine {
+  public readonly world: World;
+  public readonly events: EventBus<EngineEvents>;
+  public readonly input: InputManager;
+  public readonly resources: ResourceManager;
+
+  protected running = false;
+  private accumulator = 0;
+  protected readonly fixedTimeStep: number;
+  private readonly maxSubSteps: number;
+  private readonly profileWindow: number;
+  private readonly statsInterval: number;
+  private profiler: FrameProfiler | null = null;
+  private framesSinceStats = 0;
+  public debug = false;
+
+  /** Simulation speed multiplier (1 = real time) */
+  public timeScale = 1;
+
+  constructor(options: BaseEngineOptions = {}) {
+    this.world = new World();
+    this.events = new EventBus<EngineEvents>();
+    this.input = new InputManager({ ...options.input, events: this.events });
+    this.resources = new ResourceManager();
+    this.debug = options.debug ?? false;
+    this.fixedTimeStep = options.fixedTimeStep ?? 0;
+    this.maxSubSteps = options.maxSubSteps ?? 5;
+    this.profileWindow = options.profileWindow ?? 120;
+    this.statsInterval = options.statsInterval ?? 60;
+
+    if (options.profile) {
+      this.enableProfiling();
+    }
+  }
+
+  /**
+   * Start the clock that drives frames
+   */
+  protected abstract startClock(): void;
+
+  /**
+   * Stop the clock that drives frames
+   */
+  protected abstract stopClock(): void;
+
+  /**
+   * Draw the current frame, after the render phase of systems
+   */
+  protected abstract present(): void;
+
+  /**
+   * Start the game loop
+   */
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.accumulator = 0;
+    this.startClock();
+
+    // Emit started event
+    this.events.emit('engine:started', {});
+
+    if (this.debug) {
+      console.log(`▶️ ${this.constructor.name} started`);
+    }
+  }
+
+  /**
+   * Stop the game loop
+   */
+  public stop(): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    this.stopClock();
+
+    // Emit stopped event
+    this.events.emit('engine:stopped', {});
+
+    if (this.debug) {
+      console.log(`⏸️ ${this.constructor.name} stopped`);
+    }
+  }
+
+  /**
+   * Check if the game loop is running
+   */
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Pause the simulation
+   * Systems with runWhilePaused, input, events and rendering keep running.
+   */
+  public pause(): void {
+    if (this.world.paused) {
+      return;
+    }
+
+    this.world.paused = true;
+    this.events.emit('engine:paused', {});
+
+    if (this.debug) {
+      console.log(`⏸️ ${this.constructor.name} paused`);
+    }
+  }
+
+  /**
+   * Resume the simulation after pause()
+   */
+  public resume(): void {
+    if (!this.world.paused) {
+      return;
+    }
+
+    this.world.paused = false;
+    this.events.emit('engine:resumed', {});
+
+    if (this.debug) {
+      console.log(`▶️ ${this.constructor.name} resumed`);
+    }
+  }
+
+  /**
+   * Check if the simulation is paused
+   */
+  public isPaused(): boolean {
+    return this.world.paused;
+  }
+
+  /**
+   * Advance the simulation by exactly n frames, even while paused
+   * Each frame lasts one fixed time step (or 1/60 s without one) and runs
+   * one fixed step and one update. Rendering happens on the next loop frame.
+   * `timeScale` does not apply: a stepped frame always covers one full step,
+   * so stepping through slow motion advances the same as at normal speed.
+   * @param frames - Number of simulation frames to run
+   */
+  public step(frames: number = 1): void {
+    const stepTime = this.fixedTimeStep > 0 ? this.fixedTimeStep : 1 / 60;
+    const paused = this.world.paused;
+    this.world.paused = false;
+
+    try {
+      for (let i = 0; i < frames; i++) {
+        // Profiled as a frame without render (folded into the current frame if called during one)
+        this.profiler?.beginFrame();
+        this.simulate(stepTime, stepTime, performance.now());
+        this.profiler?.endFrame();
+      }
+    } finally {
+      this.world.paused = paused;
+    }
+  }
+
+  /**
+   * Start collecting frame and system timings
+   */
+  public enableProfiling(): void {
+    if (this.profiler) {
+      return;
+    }
+
+    this.profiler = new FrameProfiler(this.profileWindow);
+    this.framesSinceStats = 0;
+    this.world.profiler = this.profiler;
+    this.events.profiler = this.profiler;
+  }
+
+  /**
+   * Stop collecting timings and discard them
+   */
+  public disableProfiling(): void {
+    if (this.world.profiler === this.profiler) {
+      this.world.profiler = null;
+    }
+    if (this.events.profiler === this.profiler) {
+      this.events.profiler = null;
+    }
+    this.profiler = null;
+  }
+
+  /**
+   * Check if profiling is enabled
+   */
+  public isProfiling(): boolean {
+    return this.profiler !== null;
+  }
+
+  /**
+   * Get timing statistics over the rolling window (null unless profiling)
+   */
+  public getProfile(): ProfilerReport | null {
+    return this.profiler?.getReport() ?? null;
+  }
+
+  /**
+   * Run one full frame: input, simulation, render phase and present()
+   * @param unscaledDeltaTime - Real time since the last frame in seconds
+   * @param timestamp - Frame time in milliseconds
+   */
+  protected runFrame(unscaledDeltaTime: number, timestamp: number): void {
+    const deltaTime = this.world.paused ? 0 : unscaledDeltaTime * this.timeScale;
+    const profiler = this.profiler;
+    profiler?.beginFrame();
+
+    // Update input state (gestures time themselves by the frame timestamp)
+    this.input.beginFrame(timestamp);
+
+    // Run the simulation
+    const updateEvent = this.simulate(deltaTime, unscaledDeltaTime, timestamp);
+
+    // Emit pre-render event
+    this.events.emit('engine:preRender', updateEvent);
+
+    // Render phase of systems, then draw
+    this.measure('render', () => {
+      this.world.render(updateEvent.alpha);
+      this.present();
+    });
+
+    // Emit post-render event
+    this.events.emit('engine:postRender', updateEvent);
+
+    // End frame
+    this.input.endFrame();
+
+    if (profiler) {
+      profiler.endFrame();
+      if (++this.framesSinceStats >= this.statsInterval) {
+        this.framesSinceStats = 0;
+        this.events.emit('engine:frameStats', profiler.getReport());
+      }
+    }
+  }
+
+  /**
+   * Run one simulation frame: fixed steps, world update and queued events
+   */
+  private simulate(deltaTime: number, unscaledDeltaTime: number, timestamp: number): EngineUpdateEvent {
+    // Emit pre-update event
+    const updateEvent: EngineUpdateEvent = { deltaTime, unscaledDeltaTime, timestamp, alpha: 1 };
+    this.events.emit('engine:preUpdate', updateEvent);
+
+    this.measure('update', () => {
+      // Run fixed steps for the elapsed time
+      if (this.fixedTimeStep > 0) {
+        updateEvent.alpha = this.runFixedSteps(deltaTime);
+      }
+
+      // Update world (which updates all systems); systems running while paused get real time
+      this.world.update(this.world.paused ? unscaledDeltaTime : deltaTime);
+    });
+
+    // Dispatch events queued during the update (timed by the profiler on the bus)
+    this.events.flush();
+
+    // Emit post-update event
+    this.events.emit('engine:postUpdate', updateEvent);
+
+    return updateEvent;
+  }
+
+  /**
+   * Run a frame section, timing it while profiling
+   */
+  private measure(section: FrameSection, fn: () => void): void {
+    if (this.profiler) {
+      this.profiler.measure(section, fn);
+    } else {
+      fn();
+    }
+  }
+
+  /**
+   * Advance the fixed-rate simulation by the elapsed time
+   * @returns Interpolation alpha for rendering
+   */
+  private runFixedSteps(deltaTime: number): number {
+    this.accumulator += deltaTime;
+
+    let step = 0;
+    while (this.accumulator >= this.fixedTimeStep && step < this.maxSubSteps) {
+      this.events.emit('engine:fixedUpdate', { fixedDeltaTime: this.fixedTimeStep, step });
+      this.world.fixedUpdate(this.fixedTimeStep);
+      this.accumulator -= this.fixedTimeStep;
+      step++;
+    }
+
+    // Drop the backlog rather than spiral when frames are too slow
+    if (this.accumulator >= this.fixedTimeStep) {
+      if (this.debug) {
+        console.warn(`⚠️ ${this.constructor.name}: dropped ${Math.floor(this.accumulator / this.fixedTimeStep)} fixed steps`);
+      }
+      this.accumulator %= this.fixedTimeStep;
+    }
+
+    return this.accumulator / this.fixedTimeStep;
+  }
+
+  /**
+   * Destroy the engine and cleanup
+   */
+  public destroy(): void {
+    this.stop();
+    this.world.destroy();
+    this.events.clear();
+    this.input.clear();
+    this.resources.clear();
+
+    if (this.debug) {
+      console.log(`🗑️ ${this.constructor.name} destroyed`);
+    }
+  }
+
+  /**
+   * Get engine statistics
+   */
+  public getStats(): {
+    entities: number;
+    activeEntities: number;
+    systems: number;
+    running: boolean;
+    paused: boolean;
+    timeScale: number;
+    profiling: boolean;
+  } {
+    const worldStats = this.world.getStats();
+    return {
+      ...worldStats,
+      running: this.running,
+      paused: this.world.paused,
+      timeScale: this.timeScale,
+      profiling: this.profiler !== null,
+    };
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * Data-Oriented Game Engine
+ *
+ * A lightweight EngineLike implementation for plain data components created
+ * with `createComponentType`. Entities are numbers, component values live in
+ * one store per component type, and logic runs in SystemInterface systems.
+ * Has no renderer or clock of its own: drive it with `tick()`.
+ */
+
+import { EventBus } from '../events/EventBus';
+import { InputManager, InputManagerLike } from '../input/InputManager';
+import { ResourceManager } from '../services/ResourceManager';
+import type { ComponentType } from '../ecs/Component';
+import type { RenderContext, SystemInterface, UpdateContext } from '../ecs/System';
+import type { EngineLike } from './types';
+
+/**
+ * Services an Engine uses (created when not provided)
+ */
+export interface EngineServices {
+  input?: InputManagerLike;
+  events?: EventBus;
+  resources?: ResourceManager;
+}
+
+/**
+ * Engine - EngineLike implementation over per-type component stores
+ *
+ * Component values are kept in a Map per ComponentType, keyed by the type's
+ * symbol, so lookups never depend on the (non-unique) component name.
+ * Systems run in ascending priority order; each frame calls `update` on
+ * every system, flushes queued events, then calls `render`.
+ *
+ * @example
+ * ```typescript
+ * const Position = createComponentType('Position', () => ({ x: 0, y: 0 }));
+ * const Velocity = createComponentType('Velocity', () => ({ x: 0, y: 0 }));
+ *
+ * const engine = new Engine();
+ * engine.addSystem({
+ *   name: 'movement',
+ *   update({ engine, delta }) {
+ *     engine.forEachEntity([Position, Velocity], entity => {
+ *       const velocity = engine.getComponent(entity, Velocity)!;
+ *       engine.updateComponent(entity, Position, p => {
+ *         p.x += velocity.x * delta;
+ *         p.y += velocity.y * delta;
+ *       });
+ *     });
+ *   },
+ * });
+ *
+ * const ship = engine.addEntity();
+ * engine.addComponent(ship, Position);
+ * engine.addComponent(ship, Velocity, { x: 10 });
+ * engine.tick(1 / 60);
+ * ```
+ */
+export class Engine implements EngineLike {
+  private readonly input: InputManagerLike;
+  private readonly events: EventBus;
+  private readonly resources: ResourceManager;
+  private entities: Set<number> = new Set();
+  private stores: Map<symbol, Map<number, unknown>> = new Map();
+  private systems: SystemInterface[] = [];
+  private nextEntityId = 1;
+  private _time = 0;
+  private _delta = 0;
+
+  constructor(services: EngineServices = {}) {
+    this.input = services.input ?? new InputManager();
+    this.events = services.events ?? new EventBus();
+    this.resources = services.resources ?? new ResourceManager();
+  }
+
+  /**
+   * Elapsed simulation time in seconds
+   */
+  public get time(): number {
+    return this._time;
+  }
+
+  /**
+   * Duration of the last frame in seconds
+   */
+  public get delta(): number {
+    return this._delta;
+  }
+
+  public getInput(): InputManagerLike {
+    return this.input;
+  }
+
+  public getEvents(): EventBus {
+    return this.events;
+  }
+
+  public setResource<T>(key: string, value: T): void {
+    this.resources.set(key, value);
+  }
+
+  public getResource<T>(key: string): T | undefined {
+    return this.resources.get<T>(key);
+  }
+
+  public ensureResource<T>(key: string, factory: () => T): T {
+    return this.resources.ensure(key, factory);
+  }
+
+  /**
+   * Create a new entity
+   * @returns The entity id
+   */
+  public addEntity(): number {
+    const entity = this.nextEntityId++;
+    this.entities.add(entity);
+    return entity;
+  }
+
+  /**
+   * Remove an entity and all of its components
+   */
+  public removeEntity(entity: number): void {
+    if (!this.entities.delete(entity)) {
+      return;
+    }
+
+    for (const store of this.stores.values()) {
+      store.delete(entity);
+    }
+  }
+
+  /**
+   * Check if an entity exists
+   */
+  public hasEntity(entity: number): boolean {
+    return this.entities.has(entity);
+  }
+
+  /**
+   * Get the number of entities
+   */
+  public getEntityCount(): number {
+    return this.entities.size;
+  }
+
+  /**
+   * Add a component to an entity, replacing any existing value of that type
+   * @returns The stored component value
+   */
+  public addComponent<T>(entity: number, component: ComponentType<T>, initial?: Partial<T>): T {
+    if (!this.entities.has(entity)) {
+      throw new Error(`Engine: Cannot add component "${component.name}" to missing entity ${entity}`);
+    }
+
+    const value = component.create(initial);
+    this.getStore(component).set(entity, value);
+    return value;
+  }
+
+  /**
+   * Get a component value of an entity
+   */
+  public getComponent<T>(entity: number, component: ComponentType<T>): T | undefined {
+    return this.stores.get(component.key)?.get(entity) as T | undefined;
+  }
+
+  /**
+   * Check if an entity has a component
+   */
+  public hasComponent(entity: number, component: ComponentType<unknown>): boolean {
+    return this.stores.get(component.key)?.has(entity) ?? false;
+  }
+
+  /**
+   * Remove a component from an entity
+   */
+  public removeComponent(entity: number, component: ComponentType<unknown>): void {
+    this.stores.get(component.key)?.delete(entity);
+  }
+
+  /**
+   * Modify a component value in place (does nothing if the entity lacks it)
+   */
+  public updateComponent<T>(entity: number, component: ComponentType<T>, updater: (value: T) => void): void {
+    const store = this.stores.get(component.key);
+    if (!store?.has(entity)) {
+      return;
+    }
+    updater(store.get(entity) as T);
+  }
+
+  /**
+   * Call handler for every entity that has all of the given components
+   * Entities are collected before the first call, so the handler may add or
+   * remove entities and components; entities removed meanwhile are skipped.
+   */
+  public forEachEntity(components: ComponentType<unknown>[], handler: (entity: number) => void): void {
+    for (const entity of this.getEntities(components)) {
+      if (this.entities.has(entity)) {
+        handler(entity);
+      }
+    }
+  }
+
+  /**
+   * Get all entities that have all of the given components
+   * With no components, returns every entity.
+   */
+  public getEntities(components: ComponentType<unknown>[]): number[] {
+    if (components.length === 0) {
+      return Array.from(this.entities);
+    }
+
+    const stores: Map<number, unknown>[] = [];
+    for (const component of components) {
+      const store = this.stores.get(component.key);
+      if (!store || store.size === 0) {
+        return [];
+      }
+      stores.push(store);
+    }
+
+    // Iterate the smallest store and check the others
+    stores.sort((a, b) => a.size - b.size);
+    const [smallest, ...rest] = stores;
+    const result: number[] = [];
+    for (const entity of smallest!.keys()) {
+      if (rest.every(store => store.has(entity))) {
+        result.push(entity);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Add a system (sorted by priority, lowest first)
+   */
+  public addSystem(system: SystemInterface): SystemInterface {
+    if (this.systems.some(s => s.name === system.name)) {
+      throw new Error(`Engine: System "${system.name}" is already registered`);
+    }
+
+    this.systems.push(system);
+    this.systems.sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+    system.onAttach?.(this);
+    return system;
+  }
+
+  /**
+   * Remove a system by name
+   */
+  public removeSystem(name: string): void {
+    const index = this.systems.findIndex(s => s.name === name);
+    if (index > -1) {
+      this.systems.splice(index, 1);
+    }
+  }
+
+  /**
+   * Get a system by name
+   */
+  public getSystem<T extends SystemInterface>(name: string): T | undefined {
+    return this.systems.find(s => s.name === name) as T | undefined;
+  }
+
+  /**
+   * Get all systems in execution order
+   */
+  public getSystems(): SystemInterface[] {
+    return [...this.systems];
+  }
+
+  /**
+   * Run one frame: input, update phase, queued events, render phase
+   * @param delta - Time since the last frame in seconds
+   */
+  public tick(delta: number): void {
+    this.input.beginFrame((this._time + delta) * 1000);
+    this.update(delta);
+    this.render();
+    this.input.endFrame();
+  }
+
+  /**
+   * Advance time and run the update phase of all systems, then flush queued events
+   */
+  public update(delta: number): void {
+    this._delta = delta;
+    this._time += delta;
+
+    const context: UpdateContext = { engine: this, delta, elapsed: this._time };
+    for (const system of [...this.systems]) {
+      system.update?.(context);
+    }
+
+    this.events.flush();
+  }
+
+  /**
+   * Run the render phase of all systems for the current frame
+   */
+  public render(): void {
+    const context: RenderContext = { engine: this, delta: this._delta, elapsed: this._time };
+    for (const system of [...this.systems]) {
+      system.render?.(context);
+    }
+  }
+
+  /**
+   * Remove all entities, components and systems
+   */
+  public clear(): void {
+    this.entities.clear();
+    this.stores.clear();
+    this.systems = [];
+    this._time = 0;
+    this._delta = 0;
+  }
+
+  /**
+   * Get engine statistics
+   */
+  public getStats(): {
+    entities: number;
+    componentTypes: number;
+    systems: number;
+    time: number;
+  } {
+    return {
+      entities: this.entities.size,
+      componentTypes: this.stores.size,
+      systems: this.systems.length,
+      time: this._time,
+    };
+  }
+
+  /**
+   * Get (or create) the store for a component type
+   */
+  private getStore(component: ComponentType<unknown>): Map<number, unknown> {
+    let store = this.stores.get(component.key);
+    if (!store) {
+      store = new Map();
+      this.stores.set(component.key, store);
+    }
+    return store;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Headless Game Engine
+ *
+ * Runs the World without PixiJS or the DOM, e.g. on a Node server, in CI
+ * or in unit tests. Frames are driven either manually with `tick()` or by
+ * a timer clock.
+ */
+
+import { BaseEngine, BaseEngineOptions } from './BaseEngine';
+
+/**
+ * How a HeadlessEngine advances frames
+ * - 'manual': only `tick()` runs frames (deterministic, for tests and tools)
+ * - 'timer': frames run on a timer at `tickRate` while the engine is started
+ */
+export type HeadlessClock = 'manual' | 'timer';
+
+export interface HeadlessEngineOptions extends BaseEngineOptions {
+  /** Clock driving frames (default: 'manual') */
+  clock?: HeadlessClock;
+  /** Frames per second for the 'timer' clock (default: 60) */
+  tickRate?: number;
+}
+
+/**
+ * HeadlessEngine - Game engine without a renderer
+ *
+ * Same World, EventBus, InputManager and ResourceManager as WorldEngine, and
+ * the same lifecycle events, fixed time step and time control. The render
+ * phase of systems still runs each frame; there is just nothing to draw.
+ * Input does not listen to the DOM, so state only changes when fed directly.
+ *
+ * @example
+ * ```typescript
+ * const engine = new HeadlessEngine({ fixedTimeStep: 1 / 60 });
+ * engine.world.addSystem(new MovementSystem(engine.world));
+ * engine.start();
+ * for (let i = 0; i < 600; i++) {
+ *   engine.tick(1 / 60);
+ * }
+ * ```
+ */
+export class HeadlessEngine extends BaseEngine {
+  private readonly clock: HeadlessClock;
+  private readonly tickRate: number;
+  private timerHandle: ReturnType<typeof setInterval> | null = null;
+  private lastTime = 0;
+  private time = 0;
+
+  constructor(options: HeadlessEngineOptions = {}) {
+    super(options);
+    this.clock = options.clock ?? 'manual';
+    this.tickRate = options.tickRate ?? 60;
+
+    if (this.tickRate <= 0) {
+      throw new Error(`HeadlessEngine: tickRate must be positive, got ${this.tickRate}`);
+    }
+
+    if (this.debug) {
+      console.log(`🎮 HeadlessEngine initialized with ${this.clock} clock`);
+    }
+  }
+
+  /**
+   * Run one frame with the given elapsed time
+   * Works with either clock and whether or not the engine is started.
+   * @param deltaTime - Real time since the last frame in seconds
+   */
+  public tick(deltaTime: number): void {
+    this.time += deltaTime * 1000;
+    this.runFrame(deltaTime, this.time);
+  }
+
+  /**
+   * Simulated time in milliseconds, advanced by every frame
+   */
+  public getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Start the timer when using the 'timer' clock
+   */
+  protected startClock(): void {
+    if (this.clock !== 'timer') {
+      return;
+    }
+
+    this.lastTime = performance.now();
+    this.timerHandle = setInterval(() => {
+      const now = performance.now();
+      const deltaTime = (now - this.lastTime) / 1000;
+      this.lastTime = now;
+      this.tick(deltaTime);
+    }, 1000 / this.tickRate);
+  }
+
+  /**
+   * Stop the timer when using the 'timer' clock
+   */
+  protected stopClock(): void {
+    if (this.timerHandle !== null) {
+      clearInterval(this.timerHandle);
+      this.timerHandle = null;
+    }
+  }
+
+  /**
+   * Nothing to draw without a renderer
+   */
+  protected present(): void {}
+}
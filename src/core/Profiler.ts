@@ -0,0 +1,303 @@
+/**
+ * Frame Profiler
+ *
+ * Measures where frame time goes: the update, event dispatch and render
+ * sections of each frame, plus the time and processed entity count of every
+ * system. Samples are kept in a rolling window of recent frames and
+ * summarized as average, 95th percentile and maximum.
+ */
+
+import type { System, SystemPhase } from '../ecs/System';
+import type { SystemProfiler, SystemRunPass } from '../ecs/World';
+import type { EventDispatchProfiler } from '../events/EventBus';
+
+/**
+ * Summary of a rolling window of samples
+ */
+export interface SampleSummary {
+  average: number;
+  p95: number;
+  max: number;
+  /** Most recent sample */
+  last: number;
+}
+
+/**
+ * Summary of a rolling window of times in milliseconds
+ */
+export interface TimingSummary extends SampleSummary {}
+
+/**
+ * Summary of a rolling window of counts (e.g. entities processed per frame)
+ */
+export interface CountSummary extends SampleSummary {}
+
+/**
+ * Rolling statistics of one system
+ */
+export interface SystemProfile {
+  /** System class name */
+  name: string;
+  phase: SystemPhase;
+  update: TimingSummary;
+  fixedUpdate: TimingSummary;
+  render: TimingSummary;
+  /** Entities matching the system's query when it ran */
+  entities: CountSummary;
+}
+
+/**
+ * Rolling statistics of recent frames
+ */
+export interface ProfilerReport {
+  /** Number of frames in the window */
+  frames: number;
+  frame: TimingSummary;
+  /** Fixed steps and world update */
+  update: TimingSummary;
+  /**
+   * Dispatch of emitted and queued events (events emitted during the update
+   * or render section are counted in that section as well)
+   */
+  events: TimingSummary;
+  /** Render phase of systems and drawing */
+  render: TimingSummary;
+  /** Systems, slowest (by average total time) first */
+  systems: SystemProfile[];
+}
+
+/**
+ * Frame sections measured by the engine
+ */
+export type FrameSection = 'update' | 'events' | 'render';
+
+/**
+ * RollingStats - Fixed-size window of samples
+ */
+export class RollingStats {
+  private readonly samples: Float64Array;
+  private count = 0;
+  private next = 0;
+
+  constructor(windowSize: number) {
+    this.samples = new Float64Array(windowSize);
+  }
+
+  /**
+   * Add a sample, replacing the oldest one once the window is full
+   */
+  public add(value: number): void {
+    this.samples[this.next] = value;
+    this.next = (this.next + 1) % this.samples.length;
+    this.count = Math.min(this.count + 1, this.samples.length);
+  }
+
+  /**
+   * Summarize the samples in the window
+   */
+  public summarize(): SampleSummary {
+    if (this.count === 0) {
+      return { average: 0, p95: 0, max: 0, last: 0 };
+    }
+
+    const values = Array.from(this.samples.subarray(0, this.count)).sort((a, b) => a - b);
+    const total = values.reduce((sum, value) => sum + value, 0);
+    const last = this.samples[(this.next - 1 + this.samples.length) % this.samples.length]!;
+
+    return {
+      average: total / this.count,
+      p95: values[Math.ceil(this.count * 0.95) - 1]!,
+      max: values[this.count - 1]!,
+      last,
+    };
+  }
+
+  /**
+   * Number of samples in the window
+   */
+  public get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Remove all samples
+   */
+  public clear(): void {
+    this.count = 0;
+    this.next = 0;
+  }
+}
+
+interface SystemSamples {
+  system: System;
+  update: RollingStats;
+  fixedUpdate: RollingStats;
+  render: RollingStats;
+  entities: RollingStats;
+  /** Time per pass within the current frame */
+  frame: Record<SystemRunPass, number>;
+  frameEntities: number;
+  ranThisFrame: boolean;
+}
+
+/**
+ * FrameProfiler - Collects per-frame and per-system timings
+ *
+ * Installed on the World and the event bus by the engine when profiling is
+ * enabled. A system that runs several times in a frame (e.g. multiple fixed
+ * steps) is counted once with its summed time. A beginFrame/endFrame pair
+ * inside another one (e.g. a step() during a frame) is folded into the outer
+ * frame.
+ */
+export class FrameProfiler implements SystemProfiler, EventDispatchProfiler {
+  public readonly windowSize: number;
+  private readonly frameStats: RollingStats;
+  private readonly sectionStats: Record<FrameSection, RollingStats>;
+  private readonly systems: Map<System, SystemSamples> = new Map();
+  private readonly sections: Record<FrameSection, number> = { update: 0, events: 0, render: 0 };
+  private frameStart = 0;
+  private frameDepth = 0;
+
+  constructor(windowSize: number = 120) {
+    this.windowSize = windowSize;
+    this.frameStats = new RollingStats(windowSize);
+    this.sectionStats = {
+      update: new RollingStats(windowSize),
+      events: new RollingStats(windowSize),
+      render: new RollingStats(windowSize),
+    };
+  }
+
+  /**
+   * Start measuring a frame
+   */
+  public beginFrame(): void {
+    if (this.frameDepth++ > 0) {
+      return;
+    }
+
+    this.frameStart = performance.now();
+    this.sections.update = 0;
+    this.sections.events = 0;
+    this.sections.render = 0;
+  }
+
+  /**
+   * Run a function and add its duration to a frame section
+   */
+  public measure<T>(section: FrameSection, fn: () => T): T {
+    const start = performance.now();
+    try {
+      return fn();
+    } finally {
+      this.sections[section] += performance.now() - start;
+    }
+  }
+
+  /**
+   * Record the dispatch of one event (called by the event bus)
+   */
+  public recordDispatch(_event: string, duration: number): void {
+    this.sections.events += duration;
+  }
+
+  /**
+   * Record one run of a system (called by the World)
+   */
+  public recordSystem(system: System, pass: SystemRunPass, duration: number, entityCount: number): void {
+    let samples = this.systems.get(system);
+    if (!samples) {
+      samples = {
+        system,
+        update: new RollingStats(this.windowSize),
+        fixedUpdate: new RollingStats(this.windowSize),
+        render: new RollingStats(this.windowSize),
+        entities: new RollingStats(this.windowSize),
+        frame: { update: 0, fixedUpdate: 0, render: 0 },
+        frameEntities: 0,
+        ranThisFrame: false,
+      };
+      this.systems.set(system, samples);
+    }
+
+    samples.frame[pass] += duration;
+    samples.frameEntities = Math.max(samples.frameEntities, entityCount);
+    samples.ranThisFrame = true;
+  }
+
+  /**
+   * Finish the frame and add its samples to the rolling windows
+   */
+  public endFrame(): void {
+    if (this.frameDepth === 0 || --this.frameDepth > 0) {
+      return;
+    }
+
+    this.frameStats.add(performance.now() - this.frameStart);
+    this.sectionStats.update.add(this.sections.update);
+    this.sectionStats.events.add(this.sections.events);
+    this.sectionStats.render.add(this.sections.render);
+
+    for (const samples of this.systems.values()) {
+      if (!samples.ranThisFrame) {
+        continue;
+      }
+
+      samples.update.add(samples.frame.update);
+      samples.fixedUpdate.add(samples.frame.fixedUpdate);
+      samples.render.add(samples.frame.render);
+      samples.entities.add(samples.frameEntities);
+
+      samples.frame = { update: 0, fixedUpdate: 0, render: 0 };
+      samples.frameEntities = 0;
+      samples.ranThisFrame = false;
+    }
+  }
+
+  /**
+   * Summarize the rolling window
+   */
+  public getReport(): ProfilerReport {
+    const frame = this.frameStats.summarize();
+    const systems = Array.from(this.systems.values(), samples => ({
+      name: samples.system.constructor.name,
+      phase: samples.system.phase,
+      update: samples.update.summarize(),
+      fixedUpdate: samples.fixedUpdate.summarize(),
+      render: samples.render.summarize(),
+      entities: samples.entities.summarize(),
+    }));
+
+    const totalTime = (profile: SystemProfile) =>
+      profile.update.average + profile.fixedUpdate.average + profile.render.average;
+    systems.sort((a, b) => totalTime(b) - totalTime(a));
+
+    return {
+      frames: this.frameStats.size,
+      frame,
+      update: this.sectionStats.update.summarize(),
+      events: this.sectionStats.events.summarize(),
+      render: this.sectionStats.render.summarize(),
+      systems,
+    };
+  }
+
+  /**
+   * Forget a system's samples (called by the World when it is removed)
+   */
+  public forgetSystem(system: System): void {
+    this.systems.delete(system);
+  }
+
+  /**
+   * Remove all samples
+   */
+  public reset(): void {
+    this.frameStats.clear();
+    this.sectionStats.update.clear();
+    this.sectionStats.events.clear();
+    this.sectionStats.render.clear();
+    this.systems.clear();
+    this.frameDepth = 0;
+  }
+}
@@ -6,31 +6,19 @@
  */
 
 import { Application, Container } from 'pixi.js';
-import { World } from '../ecs/World';
-import { EventBus } from '../events/EventBus';
-import { InputManager } from '../input/InputManager';
-import { ResourceManager } from '../services/ResourceManager';
+import { BaseEngine, BaseEngineOptions } from './BaseEngine';
 
-export interface WorldEngineOptions {
+export interface WorldEngineOptions extends BaseEngineOptions {
   width?: number;
   height?: number;
   backgroundColor?: number | string;
   antialias?: boolean;
-  debug?: boolean;
   safeWidth?: number;
   safeHeight?: number;
   maxWidth?: number;
   maxHeight?: number;
 }
 
-/**
- * Engine lifecycle events
- */
-export interface EngineUpdateEvent {
-  deltaTime: number;
-  timestamp: number;
-}
-
 /**
  * WorldEngine - Game engine for class-based ECS architecture
  * 
@@ -41,20 +29,12 @@ export interface EngineUpdateEvent {
  * - Event bus for decoupled communication
  * - Resource storage
  * 
- * Lifecycle Events:
- * - 'engine:preUpdate' - Fired before world update
- * - 'engine:postUpdate' - Fired after world update
- * - 'engine:preRender' - Fired before rendering
- * - 'engine:postRender' - Fired after rendering
- * - 'engine:started' - Fired when engine starts
- * - 'engine:stopped' - Fired when engine stops
+ * Drives the shared BaseEngine loop (lifecycle events, fixed time step and
+ * time control) from requestAnimationFrame and renders with PixiJS. Use
+ * HeadlessEngine to run the same World without a renderer or DOM.
  */
-export class WorldEngine {
+export class WorldEngine extends BaseEngine {
   public readonly app: Application;
-  public readonly world: World;
-  public readonly events: EventBus;
-  public readonly input: InputManager;
-  public readonly resources: ResourceManager;
   
   public root!: Container; // View container for scaling/centering
   public stage!: Container; // The actual game stage
@@ -68,18 +48,12 @@ export class WorldEngine {
   private parentElement: HTMLElement | null = null;
   private readonly handleResizeListener = () => this.handleResize();
   
-  private running = false;
   private lastTime = 0;
   private frameHandle = 0;
-  public debug = false;
 
   constructor(options: WorldEngineOptions = {}) {
+    super(options);
     this.app = new Application();
-    this.world = new World();
-    this.events = new EventBus();
-    this.input = new InputManager();
-    this.resources = new ResourceManager();
-    this.debug = options.debug ?? false;
     
     if (this.debug) {
       console.log('🎮 WorldEngine initialized in debug mode');
@@ -194,47 +168,30 @@ export class WorldEngine {
   }
 
   /**
-   * Start the game loop
+   * Start the requestAnimationFrame loop and listen for input on the canvas
    */
-  public start(): void {
-    if (this.running) {
-      return;
-    }
-
-    this.running = true;
+  protected startClock(): void {
     this.lastTime = performance.now();
     
     // Listen for input on the canvas (for both keyboard and mouse)
     this.input.listen(this.app.canvas as HTMLCanvasElement);
     
     this.loop(this.lastTime);
-
-    // Emit started event
-    this.events.emit('engine:started', {});
-
-    if (this.debug) {
-      console.log('▶️ WorldEngine started');
-    }
   }
 
   /**
-   * Stop the game loop
+   * Stop the requestAnimationFrame loop and input listeners
    */
-  public stop(): void {
-    if (!this.running) {
-      return;
-    }
-
-    this.running = false;
+  protected stopClock(): void {
     cancelAnimationFrame(this.frameHandle);
     this.input.stopListening(this.app.canvas as HTMLCanvasElement);
+  }
 
-    // Emit stopped event
-    this.events.emit('engine:stopped', {});
-
-    if (this.debug) {
-      console.log('⏸️ WorldEngine stopped');
-    }
+  /**
+   * Render app.stage (which contains root and stage)
+   */
+  protected present(): void {
+    this.app.renderer.render(this.app.stage);
   }
 
   /**
@@ -247,33 +204,10 @@ export class WorldEngine {
 
     this.frameHandle = requestAnimationFrame(this.loop);
     
-    const deltaTime = Math.min((timestamp - this.lastTime) / 1000, 0.1);
+    const unscaledDeltaTime = Math.min((timestamp - this.lastTime) / 1000, 0.1);
     this.lastTime = timestamp;
 
-    // Update input state
-    this.input.beginFrame();
-
-    // Emit pre-update event
-    const updateEvent: EngineUpdateEvent = { deltaTime, timestamp };
-    this.events.emit('engine:preUpdate', updateEvent);
-
-    // Update world (which updates all systems)
-    this.world.update(deltaTime);
-
-    // Emit post-update event
-    this.events.emit('engine:postUpdate', updateEvent);
-
-    // Emit pre-render event
-    this.events.emit('engine:preRender', updateEvent);
-
-    // Render (renders app.stage which contains root and stage)
-    this.app.renderer.render(this.app.stage);
-
-    // Emit post-render event
-    this.events.emit('engine:postRender', updateEvent);
-
-    // End frame
-    this.input.endFrame();
+    this.runFrame(unscaledDeltaTime, timestamp);
   };
 
   /**
@@ -290,37 +224,13 @@ export class WorldEngine {
   /**
    * Destroy the engine and cleanup
    */
-  public destroy(): void {
-    this.stop();
+  public override destroy(): void {
     window.removeEventListener('resize', this.handleResizeListener);
     window.removeEventListener('orientationchange', this.handleResizeListener);
     this.resizeObserver?.disconnect();
     this.resizeObserver = undefined;
     this.parentElement = null;
-    this.world.destroy();
+    super.destroy();
     this.app.destroy(true, { children: true, texture: true });
-    this.events.clear();
-    this.input.clear();
-    this.resources.clear();
-
-    if (this.debug) {
-      console.log('🗑️ WorldEngine destroyed');
-    }
-  }
-
-  /**
-   * Get engine statistics
-   */
-  public getStats(): {
-    entities: number;
-    activeEntities: number;
-    systems: number;
-    running: boolean;
-  } {
-    const worldStats = this.world.getStats();
-    return {
-      ...worldStats,
-      running: this.running,
-    };
   }
 }
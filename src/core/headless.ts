@@ -0,0 +1,11 @@
+/**
+ * Headless Engine Entry
+ * 
+ * Core engine without the PixiJS-based WorldEngine, for Node servers and tests.
+ */
+
+export * from './BaseEngine';
+export * from './Engine';
+export * from './HeadlessEngine';
+export * from './Profiler';
+export * from './types';
@@ -4,5 +4,9 @@
  * Main engine implementation and core types.
  */
 
+export * from './BaseEngine';
+export * from './Engine';
+export * from './HeadlessEngine';
+export * from './Profiler';
 export * from './WorldEngine';
 export * from './types';
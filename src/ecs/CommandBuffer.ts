@@ -0,0 +1,179 @@
+/**
+ * Core ECS Architecture - Command Buffer
+ *
+ * Records structural changes (adding/removing components, destroying and
+ * spawning entities) so systems can request them while iterating queries.
+ * The World plays the buffer back at its sync points: before the first
+ * system of each phase and after every system. Commands run in the order
+ * they were recorded; commands recorded during playback run in the same
+ * playback, after the ones already queued. Entities spawned or destroyed
+ * at a sync point are registered or removed before the next system runs.
+ */
+
+import type { Component, ComponentType } from './Component';
+import type { Entity } from './Entity';
+import type { EntityHandle } from './EntityIdAllocator';
+import type { World } from './World';
+
+/**
+ * Builds an entity in the given world (see CommandBuffer.spawn)
+ */
+export type Prefab = (world: World) => Entity;
+
+type Command =
+  | { kind: 'addComponent'; entity: Entity; handle: EntityHandle; component: Component }
+  | { kind: 'removeComponent'; entity: Entity; handle: EntityHandle; component: Component | string }
+  | { kind: 'addData'; entity: Entity; handle: EntityHandle; type: ComponentType<unknown>; initial?: Partial<unknown> }
+  | { kind: 'removeData'; entity: Entity; handle: EntityHandle; type: ComponentType<unknown> }
+  | { kind: 'destroy'; entity: Entity; handle: EntityHandle }
+  | { kind: 'spawn'; prefab: Prefab; onSpawn?: (entity: Entity) => void };
+
+/**
+ * CommandBuffer - Deferred structural changes for a World
+ *
+ * Commands that target an entity are skipped if the entity was destroyed
+ * before playback (e.g. by an earlier destroy command).
+ *
+ * @example
+ * ```typescript
+ * for (const entity of this.getEntities()) {
+ *   if (entity.getComponent<HealthComponent>('Health')!.current <= 0) {
+ *     this._world.commands.destroy(entity);
+ *     this._world.commands.spawn(createExplosion);
+ *   }
+ * }
+ * ```
+ */
+export class CommandBuffer {
+  private readonly world: World;
+  private commands: Command[] = [];
+  private playing = false;
+
+  constructor(world: World) {
+    this.world = world;
+  }
+
+  /**
+   * Add a component to an entity at the next sync point
+   */
+  public addComponent(entity: Entity, component: Component): this {
+    this.commands.push({ kind: 'addComponent', entity, handle: entity.getHandle(), component });
+    return this;
+  }
+
+  /**
+   * Remove a component (or all components of a type) at the next sync point
+   */
+  public removeComponent(entity: Entity, component: Component | string): this {
+    this.commands.push({ kind: 'removeComponent', entity, handle: entity.getHandle(), component });
+    return this;
+  }
+
+  /**
+   * Add a data component to an entity at the next sync point
+   */
+  public addData<T>(entity: Entity, type: ComponentType<T>, initial?: Partial<T>): this {
+    this.commands.push({ kind: 'addData', entity, handle: entity.getHandle(), type, initial });
+    return this;
+  }
+
+  /**
+   * Remove a data component from an entity at the next sync point
+   */
+  public removeData(entity: Entity, type: ComponentType<unknown>): this {
+    this.commands.push({ kind: 'removeData', entity, handle: entity.getHandle(), type });
+    return this;
+  }
+
+  /**
+   * Destroy an entity (and its children) at the next sync point
+   */
+  public destroy(entity: Entity): this {
+    this.commands.push({ kind: 'destroy', entity, handle: entity.getHandle() });
+    return this;
+  }
+
+  /**
+   * Create an entity from a prefab at the next sync point
+   * @param prefab - Function that creates the entity in the world
+   * @param onSpawn - Called with the new entity
+   */
+  public spawn(prefab: Prefab, onSpawn?: (entity: Entity) => void): this {
+    this.commands.push({ kind: 'spawn', prefab, onSpawn });
+    return this;
+  }
+
+  /**
+   * Number of recorded commands waiting for playback
+   */
+  public get size(): number {
+    return this.commands.length;
+  }
+
+  /**
+   * Run all recorded commands in order (called by the World at sync points)
+   */
+  public playback(): void {
+    if (this.playing) {
+      return;
+    }
+
+    this.playing = true;
+    let index = 0;
+
+    try {
+      while (index < this.commands.length) {
+        this.execute(this.commands[index++]!);
+      }
+    } finally {
+      // Drop executed commands even if one of them threw
+      this.commands.splice(0, index);
+      this.playing = false;
+    }
+  }
+
+  /**
+   * Discard all recorded commands
+   */
+  public clear(): void {
+    this.commands = [];
+  }
+
+  /**
+   * Apply a single command
+   */
+  private execute(command: Command): void {
+    if (command.kind === 'spawn') {
+      const entity = command.prefab(this.world);
+      command.onSpawn?.(entity);
+      return;
+    }
+
+    const entity = command.entity;
+    if (!this.world.isAlive(command.handle) || entity.isDestroyed()) {
+      return;
+    }
+
+    switch (command.kind) {
+      case 'addComponent':
+        entity.addComponent(command.component);
+        break;
+      case 'removeComponent':
+        if (typeof command.component === 'string') {
+          entity.removeComponentsByType(command.component);
+        } else {
+          entity.removeComponent(command.component);
+        }
+        break;
+      case 'addData':
+        entity.addData(command.type, command.initial);
+        break;
+      case 'removeData':
+        entity.removeData(command.type);
+        break;
+      case 'destroy':
+        entity.destroy();
+        break;
+    }
+  }
+}
@@ -5,21 +5,23 @@
  * They should not contain logic - that belongs in Systems.
  */
 
+import type { Entity } from './Entity';
 import type { World } from './World';
 
-let nextComponentId = 0;
-
 /**
  * Base Component class - data containers with no logic
  */
 export abstract class Component {
-  public readonly id: number;
   public entityId: number = -1;
   public enabled: boolean = true;
+  private _id: number = -1;
   private _world: World | null = null;
 
-  constructor() {
-    this.id = nextComponentId++;
+  /**
+   * ID within the world of the component's entity (-1 until it joins a world)
+   */
+  public get id(): number {
+    return this._id;
   }
 
   /**
@@ -31,6 +33,9 @@ export abstract class Component {
    * Set the world reference (called by Entity when component is added)
    */
   public setWorld(world: World): void {
+    if (this._world !== world) {
+      this._id = world.allocateComponentId();
+    }
     this._world = world;
   }
 
@@ -57,6 +62,19 @@ export abstract class Component {
     return entity.getComponent(componentType) as T | null;
   }
 
+  /**
+   * Called when the component is added to an entity
+   * Override this in subclasses to react to being attached
+   */
+  public onAttach(_entity: Entity): void {}
+
+  /**
+   * Called when the component is removed from its entity, either directly
+   * or because the entity is being destroyed
+   * Override this in subclasses to react to being detached
+   */
+  public onDetach(): void {}
+
   /**
    * Cleanup resources when component is destroyed
    * Override this in subclasses to implement custom cleanup logic
@@ -97,3 +115,16 @@ export function createComponentType<T>(name: string, defaults: () => T): Compone
     },
   };
 }
+
+/**
+ * Key identifying a kind of component on an Entity: the type name of a
+ * class-based Component, or a ComponentType for data components
+ */
+export type ComponentKey = string | ComponentType<unknown>;
+
+/**
+ * Check if a component key is a ComponentType (data component)
+ */
+export function isComponentType(key: unknown): key is ComponentType<unknown> {
+  return typeof key === 'object' && key !== null && typeof (key as ComponentType<unknown>).key === 'symbol';
+}
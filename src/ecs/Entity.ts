@@ -3,38 +3,96 @@
  * 
  * An Entity is a unique identifier with a collection of Components.
  * Entities are processed by Systems based on their Component composition.
+ * IDs are assigned by the World the entity is added to and recycled after
+ * removal; the generation tells reuses of the same ID apart.
  */
 
-import { Component } from './Component';
+import { Component, ComponentKey, ComponentType, isComponentType } from './Component';
+import type { EntityHandle } from './EntityIdAllocator';
 import type { World } from './World';
 
-let nextEntityId = 0;
-
 /**
  * Entity - Container for components with unique ID
  */
 export class Entity {
-  public readonly id: number;
   public name: string;
-  public active: boolean = true;
-  private _components: Map<string, Component> = new Map();
+  private _id: number = -1;
+  private _generation: number = 0;
+  private _active: boolean = true;
+  private _components: Set<Component> = new Set();
   private _componentsByType: Map<string, Component[]> = new Map();
+  private _data: Map<symbol, { type: ComponentType<unknown>; value: unknown }> = new Map();
   private _world: World | null = null;
+  private _parent: Entity | null = null;
+  private _children: Entity[] = [];
   private _isDestroying: boolean = false;
   private _isDestroyed: boolean = false;
 
   constructor(name: string = 'Entity') {
-    this.id = nextEntityId++;
     this.name = name;
   }
 
+  /**
+   * ID within the entity's world (-1 until added to a world)
+   */
+  public get id(): number {
+    return this._id;
+  }
+
+  /**
+   * Generation of the ID, incremented by the world each time the ID is reused
+   */
+  public get generation(): number {
+    return this._generation;
+  }
+
+  /**
+   * Get a generational handle to this entity (see World.isAlive)
+   */
+  public getHandle(): EntityHandle {
+    return { id: this._id, generation: this._generation };
+  }
+
+  /**
+   * Set the ID and generation (called by World when entity is added)
+   */
+  public setHandle(handle: EntityHandle): void {
+    this._id = handle.id;
+    this._generation = handle.generation;
+    for (const component of this._components) {
+      component.entityId = handle.id;
+    }
+  }
+
+  /**
+   * Whether the entity is active (inactive entities are excluded from queries)
+   */
+  public get active(): boolean {
+    return this._active;
+  }
+
+  public set active(value: boolean) {
+    if (this._active === value) {
+      return;
+    }
+    this._active = value;
+    this._refreshHierarchy();
+  }
+
+  /**
+   * Check if the entity and all of its ancestors are active
+   */
+  public isActiveInHierarchy(): boolean {
+    return this._active && (this._parent?.isActiveInHierarchy() ?? true);
+  }
+
   /**
    * Set the world reference (called by World when entity is added)
    */
   public setWorld(world: World): void {
     this._world = world;
     // Update all existing components
-    for (const component of this._components.values()) {
+    for (const component of this._components) {
       component.setWorld(world);
     }
   }
@@ -46,6 +104,101 @@ export class Entity {
     return this._world;
   }
 
+  /**
+   * Set the parent entity (pass null to detach from the current parent)
+   * An entity that is not in a world yet is added to the parent's world,
+   * together with its descendants.
+   * Throws if the parent is this entity or one of its descendants.
+   */
+  public setParent(parent: Entity | null): this {
+    if (parent === this._parent) {
+      return this;
+    }
+
+    if (parent && (parent === this || parent.isDescendantOf(this))) {
+      throw new Error(`Entity: Cannot parent "${this.name}" to itself or one of its descendants.`);
+    }
+
+    if (this._parent) {
+      const siblings = this._parent._children;
+      const index = siblings.indexOf(this);
+      if (index > -1) {
+        siblings.splice(index, 1);
+      }
+    }
+
+    this._parent = parent;
+    parent?._children.push(this);
+
+    if (parent?._world && !this._world && !this._isDestroyed) {
+      parent._world.addEntity(this);
+    }
+    this._world?.handleParentChanged(this);
+
+    // Inherited activation may have changed for the whole subtree
+    this._refreshHierarchy();
+    return this;
+  }
+
+  /**
+   * Get the parent entity
+   */
+  public getParent(): Entity | null {
+    return this._parent;
+  }
+
+  /**
+   * Get the direct children of this entity
+   */
+  public getChildren(): Entity[] {
+    return [...this._children];
+  }
+
+  /**
+   * Add a child entity (shorthand for child.setParent(this))
+   */
+  public addChild(child: Entity): this {
+    child.setParent(this);
+    return this;
+  }
+
+  /**
+   * Detach a direct child entity
+   */
+  public removeChild(child: Entity): this {
+    if (child._parent === this) {
+      child.setParent(null);
+    }
+    return this;
+  }
+
+  /**
+   * Check if this entity is a (direct or indirect) descendant of another
+   */
+  public isDescendantOf(entity: Entity): boolean {
+    let current = this._parent;
+    while (current) {
+      if (current === entity) {
+        return true;
+      }
+      current = current._parent;
+    }
+    return false;
+  }
+
+  /**
+   * Visit this entity and all of its descendants depth-first
+   * Return false from the callback to skip an entity's children.
+   */
+  public traverse(callback: (entity: Entity) => boolean | void): void {
+    if (callback(this) === false) {
+      return;
+    }
+    for (const child of [...this._children]) {
+      child.traverse(callback);
+    }
+  }
+
   /**
    * Add a component to this entity
    */
@@ -58,13 +211,16 @@ export class Entity {
       component.setWorld(this._world);
     }
 
-    this._components.set(component.id.toString(), component);
+    this._components.add(component);
 
     if (!this._componentsByType.has(type)) {
       this._componentsByType.set(type, []);
     }
     this._componentsByType.get(type)!.push(component);
 
+    component.onAttach(this);
+    this._world?.handleComponentAdded(this, component);
+
     return component;
   }
 
@@ -85,8 +241,12 @@ export class Entity {
 
   /**
    * Check if entity has a component of type
+   * Accepts a class component type name or a ComponentType (data component).
    */
-  public hasComponent(type: string): boolean {
+  public hasComponent(type: ComponentKey): boolean {
+    if (isComponentType(type)) {
+      return this._data.has(type.key);
+    }
     return this._componentsByType.has(type) && this._componentsByType.get(type)!.length > 0;
   }
 
@@ -95,7 +255,9 @@ export class Entity {
    */
   public removeComponent(component: Component): void {
     const type = component.getType();
-    this._components.delete(component.id.toString());
+    if (!this._components.delete(component)) {
+      return;
+    }
 
     const typeComponents = this._componentsByType.get(type);
     if (typeComponents) {
@@ -107,6 +269,9 @@ export class Entity {
         this._componentsByType.delete(type);
       }
     }
+
+    this._world?.handleComponentRemoved(this, component);
+    component.onDetach();
   }
 
   /**
@@ -125,11 +290,73 @@ export class Entity {
    * Get all components
    */
   public getAllComponents(): Component[] {
-    return Array.from(this._components.values());
+    return Array.from(this._components);
+  }
+
+  /**
+   * Add a data component (a ComponentType value), replacing any existing value of that type
+   * Component added listeners of the type are notified either way.
+   * @returns The stored value
+   */
+  public addData<T>(type: ComponentType<T>, initial?: Partial<T>): T {
+    const value = type.create(initial);
+    this._data.set(type.key, { type, value });
+    this._world?.handleDataAdded(this, type, value);
+
+    return value;
+  }
+
+  /**
+   * Get the value of a data component
+   */
+  public getData<T>(type: ComponentType<T>): T | undefined {
+    return this._data.get(type.key)?.value as T | undefined;
+  }
+
+  /**
+   * Check if entity has a data component
+   */
+  public hasData(type: ComponentType<unknown>): boolean {
+    return this._data.has(type.key);
   }
 
   /**
-   * Destroy entity - cleanup all components
+   * Modify a data component value in place (does nothing if the entity lacks it)
+   */
+  public updateData<T>(type: ComponentType<T>, updater: (value: T) => void): void {
+    const entry = this._data.get(type.key);
+    if (entry) {
+      updater(entry.value as T);
+    }
+  }
+
+  /**
+   * Remove a data component
+   */
+  public removeData(type: ComponentType<unknown>): void {
+    const entry = this._data.get(type.key);
+    if (entry) {
+      this._data.delete(type.key);
+      this._world?.handleDataRemoved(this, type, entry.value);
+    }
+  }
+
+  /**
+   * Get all data components with their types
+   */
+  public getAllData(): Array<{ type: ComponentType<unknown>; value: unknown }> {
+    return Array.from(this._data.values(), ({ type, value }) => ({ type, value }));
+  }
+
+  /**
+   * Check if the entity has been destroyed (or is being destroyed)
+   */
+  public isDestroyed(): boolean {
+    return this._isDestroying || this._isDestroyed;
+  }
+
+  /**
+   * Destroy entity - cleanup all components and destroy all children
    */
   public destroy(): void {
     if (this._isDestroying || this._isDestroyed) {
@@ -158,23 +385,49 @@ export class Entity {
       return;
     }
 
-    for (const component of this._components.values()) {
+    this.active = false;
+
+    // Children are destroyed before their parent
+    for (const child of [...this._children]) {
+      child.destroy();
+    }
+    this.setParent(null);
+
+    for (const component of this._components) {
+      this._world?.handleComponentRemoved(this, component);
+      component.onDetach();
       component.destroy();
     }
+    for (const { type, value } of this._data.values()) {
+      this._world?.handleDataRemoved(this, type, value);
+    }
 
     this._components.clear();
     this._componentsByType.clear();
-    this.active = false;
+    this._data.clear();
     this._world = null;
     this._isDestroyed = true;
     this._isDestroying = false;
   }
 
+  /**
+   * Re-evaluate query membership for this entity and its descendants
+   */
+  private _refreshHierarchy(): void {
+    const world = this._world;
+    if (world) {
+      this.traverse(entity => world.refreshEntity(entity));
+    }
+  }
+
   /**
    * Convert entity to string representation
    */
   public toString(): string {
-    const componentTypes = Array.from(this._componentsByType.keys()).join(', ');
+    const componentTypes = [
+      ...this._componentsByType.keys(),
+      ...Array.from(this._data.values(), ({ type }) => type.name),
+    ].join(', ');
     return `Entity "${this.name}" [ID: ${this.id}, Active: ${this.active}, Components: ${componentTypes}]`;
   }
 }
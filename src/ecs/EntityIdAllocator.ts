@@ -0,0 +1,121 @@
+/**
+ * Core ECS Architecture - Entity ID Allocation
+ *
+ * Each World hands out its own entity IDs. IDs of removed entities are
+ * recycled, and every slot carries a generation counter that is bumped on
+ * release, so a handle to a removed entity never matches the entity that
+ * later reuses its ID.
+ */
+
+/**
+ * Generational reference to an entity
+ * Store handles instead of entity objects or bare IDs to detect removal.
+ */
+export interface EntityHandle {
+  readonly id: number;
+  readonly generation: number;
+}
+
+/**
+ * EntityIdAllocator - Recycling ID allocator with generation counters
+ *
+ * New IDs are handed out in increasing order. Explicitly claimed IDs do not
+ * reserve the IDs below them, so restoring a few entities with large IDs
+ * stays cheap; the counter just skips IDs that are taken when it reaches them.
+ */
+export class EntityIdAllocator {
+  /** Generation of every ID that has been allocated at least once */
+  private generations: Map<number, number> = new Map();
+  private alive: Set<number> = new Set();
+  /** Released IDs, reused oldest first */
+  private free: Set<number> = new Set();
+  private nextId = 0;
+
+  /**
+   * Allocate an ID, reusing released ones first
+   */
+  public allocate(): EntityHandle {
+    const released = this.free.values().next();
+    if (!released.done) {
+      this.free.delete(released.value);
+      return this.claim(released.value);
+    }
+
+    while (this.generations.has(this.nextId)) {
+      this.nextId++;
+    }
+    return this.claim(this.nextId++);
+  }
+
+  /**
+   * Allocate a specific ID, e.g. to recreate an entity from a save
+   * Throws if the ID is not a non-negative safe integer or is already in use.
+   * @param id - ID to claim
+   * @param generation - Generation to restore (defaults to the slot's current one)
+   */
+  public allocateId(id: number, generation?: number): EntityHandle {
+    if (!Number.isSafeInteger(id) || id < 0) {
+      throw new Error(`EntityIdAllocator: Invalid entity id ${id}`);
+    }
+    if (generation !== undefined && (!Number.isSafeInteger(generation) || generation < 0)) {
+      throw new Error(`EntityIdAllocator: Invalid generation ${generation} for entity id ${id}`);
+    }
+    if (this.alive.has(id)) {
+      throw new Error(`EntityIdAllocator: Entity id ${id} is already in use`);
+    }
+
+    this.free.delete(id);
+    return this.claim(id, generation);
+  }
+
+  /**
+   * Release an ID so it can be reused; existing handles to it become stale
+   */
+  public release(id: number): void {
+    if (!this.alive.delete(id)) {
+      return;
+    }
+
+    this.generations.set(id, this.getGeneration(id) + 1);
+    this.free.add(id);
+  }
+
+  /**
+   * Check if a handle refers to a currently allocated ID of the same generation
+   */
+  public isAlive(handle: EntityHandle): boolean {
+    return this.alive.has(handle.id) && this.generations.get(handle.id) === handle.generation;
+  }
+
+  /**
+   * Get the current generation of an ID
+   */
+  public getGeneration(id: number): number {
+    return this.generations.get(id) ?? 0;
+  }
+
+  /**
+   * Number of allocated IDs
+   */
+  public get size(): number {
+    return this.alive.size;
+  }
+
+  /**
+   * Release all IDs (generations are kept, so old handles stay stale)
+   */
+  public clear(): void {
+    for (const id of [...this.alive]) {
+      this.release(id);
+    }
+  }
+
+  /**
+   * Mark an ID as allocated and build its handle
+   */
+  private claim(id: number, generation: number = this.getGeneration(id)): EntityHandle {
+    this.generations.set(id, generation);
+    this.alive.add(id);
+    return { id, generation };
+  }
+}
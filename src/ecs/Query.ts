@@ -0,0 +1,140 @@
+/**
+ * Core ECS Architecture - Query
+ *
+ * A Query is a live, cached view of all active entities that have a given
+ * set of components. The World keeps every registered query up to date as
+ * components are added/removed, entities are activated, deactivated,
+ * reparented or removed, so systems can iterate matches without filtering
+ * each frame. Entities with an inactive ancestor never match.
+ * Signatures can mix class component type names and ComponentTypes.
+ */
+
+import { ComponentKey, ComponentType, isComponentType } from './Component';
+import type { Entity } from './Entity';
+
+const componentTypeIds: WeakMap<ComponentType<unknown>, number> = new WeakMap();
+let nextComponentTypeId = 0;
+
+/**
+ * Query - Incrementally maintained set of entities matching a component signature
+ */
+export class Query {
+  public readonly componentTypes: readonly ComponentKey[];
+  private _entities: Map<number, Entity> = new Map();
+  private _cache: Entity[] | null = null;
+
+  constructor(componentTypes: ComponentKey[]) {
+    this.componentTypes = [...componentTypes];
+  }
+
+  /**
+   * Build the cache key for a component signature (order independent)
+   */
+  public static getKey(componentTypes: ComponentKey[]): string {
+    return [...new Set(componentTypes.map(type => Query.keyOf(type)))].sort().join('|');
+  }
+
+  /**
+   * Stable string for a single component key
+   * ComponentTypes are told apart by identity, not by their (non-unique) name.
+   */
+  private static keyOf(type: ComponentKey): string {
+    if (!isComponentType(type)) {
+      return type;
+    }
+
+    let id = componentTypeIds.get(type);
+    if (id === undefined) {
+      id = nextComponentTypeId++;
+      componentTypeIds.set(type, id);
+    }
+    return `@${type.name}#${id}`;
+  }
+
+  /**
+   * Check if an entity satisfies this query's component signature
+   */
+  public matches(entity: Entity): boolean {
+    if (!entity.isActiveInHierarchy()) {
+      return false;
+    }
+    return this.componentTypes.every(type => entity.hasComponent(type));
+  }
+
+  /**
+   * Re-evaluate membership of an entity (called by the World)
+   */
+  public refresh(entity: Entity): void {
+    if (this.matches(entity)) {
+      if (!this._entities.has(entity.id)) {
+        this._entities.set(entity.id, entity);
+        this._cache = null;
+      }
+    } else {
+      this.remove(entity);
+    }
+  }
+
+  /**
+   * Remove an entity from the matching set (called by the World)
+   */
+  public remove(entity: Entity): void {
+    if (this._entities.delete(entity.id)) {
+      this._cache = null;
+    }
+  }
+
+  /**
+   * Remove all entities from the matching set (called by the World)
+   */
+  public clear(): void {
+    this._entities.clear();
+    this._cache = null;
+  }
+
+  /**
+   * Get all matching entities
+   * The returned array is cached and only rebuilt after membership changes,
+   * so it must not be mutated by callers.
+   */
+  public getEntities(): Entity[] {
+    if (!this._cache) {
+      this._cache = Array.from(this._entities.values());
+    }
+    return this._cache;
+  }
+
+  /**
+   * Check if an entity is currently part of the matching set
+   */
+  public has(entity: Entity): boolean {
+    return this._entities.get(entity.id) === entity;
+  }
+
+  /**
+   * Get the first matching entity
+   */
+  public first(): Entity | undefined {
+    return this.getEntities()[0];
+  }
+
+  /**
+   * Iterate over all matching entities
+   */
+  public forEach(callback: (entity: Entity) => void): void {
+    for (const entity of this.getEntities()) {
+      callback(entity);
+    }
+  }
+
+  /**
+   * Number of matching entities
+   */
+  public get size(): number {
+    return this._entities.size;
+  }
+
+  public [Symbol.iterator](): Iterator<Entity> {
+    return this.getEntities()[Symbol.iterator]();
+  }
+}
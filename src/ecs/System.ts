@@ -5,17 +5,49 @@
  * They should be stateless where possible, storing state in components instead.
  */
 
+import type { ComponentKey } from './Component';
 import type { Entity } from './Entity';
+import type { Query } from './Query';
 import type { World } from './World';
 import type { EngineLike } from '../core/types';
 
+/**
+ * Scheduling phases, run in this order within every world update,
+ * fixed update and render pass
+ */
+export const SYSTEM_PHASES = ['input', 'preUpdate', 'update', 'postUpdate', 'render'] as const;
+
+export type SystemPhase = typeof SYSTEM_PHASES[number];
+
+/**
+ * Constructor of a System subclass, used for ordering constraints
+ */
+export type SystemClass = abstract new (...args: any[]) => System;
+
 /**
  * Base System class - contains logic that operates on entities with specific components
+ * 
+ * Systems are ordered by phase, then by their before/after constraints,
+ * then by priority (lowest first). The world notices changes to the
+ * ordering fields (phase, priority, before, after, group) of added systems
+ * and reschedules them before the next run.
  */
 export abstract class System {
   protected readonly _world: World;
   public enabled: boolean = true;
+  /** Order among systems of the same phase without constraints between them */
   public priority: number = 0;
+  /** Phase this system runs in */
+  public phase: SystemPhase = 'update';
+  /** Keep updating while the world is paused (e.g. UI systems) */
+  public runWhilePaused: boolean = false;
+  /** Run before systems of these classes (within the same phase) */
+  public before: SystemClass[] = [];
+  /** Run after systems of these classes (within the same phase) */
+  public after: SystemClass[] = [];
+  /** Group that can be enabled/disabled as a whole with world.setGroupEnabled */
+  public group: string | null = null;
+  private _query: Query | null = null;
 
   constructor(world: World) {
     this._world = world;
@@ -24,8 +56,9 @@ export abstract class System {
   /**
    * Define which component types this system requires
    * Return an empty array if the system doesn't filter by components
+   * Type names of class components and ComponentTypes can be mixed.
    */
-  public abstract getRequiredComponents(): string[];
+  public abstract getRequiredComponents(): ComponentKey[];
 
   /**
    * Called once when system is initialized
@@ -37,17 +70,46 @@ export abstract class System {
    */
   public update(_deltaTime: number): void {}
 
+  /**
+   * Called at a fixed rate when the engine runs with a fixed time step
+   * (zero or more times per frame, before update)
+   */
+  public fixedUpdate(_fixedDeltaTime: number): void {}
+
+  /**
+   * Called every frame before rendering with the interpolation alpha
+   * (0-1, how far the frame is between the last and next fixed step;
+   * always 1 without a fixed time step)
+   */
+  public render(_alpha: number): void {}
+
   /**
    * Called when system is destroyed
    */
   public onDestroy(): void {}
 
+  /**
+   * Get the cached world query for this system's required components
+   */
+  protected getQuery(): Query {
+    if (!this._query) {
+      this._query = this._world.query(this.getRequiredComponents());
+    }
+    return this._query;
+  }
+
   /**
    * Get all entities that match this system's requirements
    */
   protected getEntities(): Entity[] {
-    const required = this.getRequiredComponents();
-    return this._world.getEntitiesWithComponents(required);
+    return this.getQuery().getEntities();
+  }
+
+  /**
+   * Number of entities matching this system's requirements
+   */
+  public getEntityCount(): number {
+    return this.getQuery().size;
   }
 
   /**
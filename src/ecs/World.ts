@@ -5,28 +5,123 @@
  * and providing query methods for efficient entity lookup.
  */
 
+import { CommandBuffer } from './CommandBuffer';
+import { isComponentType, type Component, type ComponentKey, type ComponentType } from './Component';
 import { Entity } from './Entity';
-import { System } from './System';
+import { EntityHandle, EntityIdAllocator } from './EntityIdAllocator';
+import { Query } from './Query';
+import { System, SystemClass, SystemPhase, SYSTEM_PHASES } from './System';
+
+/**
+ * Callback for component lifecycle events
+ */
+export type ComponentListener<T extends Component = Component> = (entity: Entity, component: T) => void;
+
+/**
+ * Callback for data component lifecycle events
+ */
+export type DataComponentListener<T> = (entity: Entity, value: T) => void;
+
+/**
+ * World pass a system run belongs to
+ */
+export type SystemRunPass = 'update' | 'fixedUpdate' | 'render';
+
+/**
+ * Receives system timings when installed as `world.profiler`
+ */
+export interface SystemProfiler {
+  recordSystem(system: System, pass: SystemRunPass, duration: number, entityCount: number): void;
+  forgetSystem(system: System): void;
+}
+
+/**
+ * Options for the ID of an entity added to the world
+ */
+export interface EntityIdOptions {
+  /** Claim this ID instead of allocating one (throws if it is in use) */
+  id?: number;
+  /** Generation to restore along with the ID */
+  generation?: number;
+}
+
+/**
+ * Ordering fields of a system, as they were when the schedule was built
+ */
+interface SystemOrdering {
+  phase: SystemPhase;
+  priority: number;
+  group: string | null;
+  before: SystemClass[];
+  after: SystemClass[];
+}
 
 /**
  * World - Manages all entities and systems
  */
 export class World {
   private _entities: Map<number, Entity> = new Map();
+  private _roots: Set<Entity> = new Set();
+  private _ids: EntityIdAllocator = new EntityIdAllocator();
+  private _nextComponentId: number = 0;
   private _systems: System[] = [];
+  private _schedule: System[] | null = null;
+  private _scheduledOrderings: Map<System, SystemOrdering> = new Map();
+  private _disabledGroups: Set<string> = new Set();
+  private _queries: Map<string, Query> = new Map();
+  private _componentAddedListeners: Map<string | null, Set<ComponentListener>> = new Map();
+  private _componentRemovedListeners: Map<string | null, Set<ComponentListener>> = new Map();
+  private _dataAddedListeners: Map<symbol, Set<DataComponentListener<unknown>>> = new Map();
+  private _dataRemovedListeners: Map<symbol, Set<DataComponentListener<unknown>>> = new Map();
   private _entitiesToAdd: Entity[] = [];
   private _entitiesToRemove: Entity[] = [];
   private _isUpdating: boolean = false;
 
+  /**
+   * Whether the simulation is paused
+   * While paused only systems with runWhilePaused take part in the update and
+   * fixed update phases; the render phase always runs.
+   */
+  public paused: boolean = false;
+
+  /**
+   * Deferred structural changes, played back before the first system of
+   * each phase and after every system
+   */
+  public readonly commands: CommandBuffer = new CommandBuffer(this);
+
+  /**
+   * Measures every system run when set (see FrameProfiler)
+   */
+  public profiler: SystemProfiler | null = null;
+
   /**
    * Add an entity to the world
+   * The entity gets an ID from this world right away, even when it is only
+   * registered at the next sync point of the current update. Pass an ID to
+   * recreate an entity from saved data. Descendants that are not in a world
+   * yet are added along with the entity.
    */
-  public addEntity(entity: Entity): Entity {
+  public addEntity(entity: Entity, options?: EntityIdOptions): Entity {
+    if (entity.getWorld() === this && this._ids.isAlive(entity.getHandle())) {
+      return entity;
+    }
+
+    const handle = options?.id !== undefined
+      ? this._ids.allocateId(options.id, options.generation)
+      : this._ids.allocate();
+    entity.setHandle(handle);
     entity.setWorld(this);
     if (this._isUpdating) {
       this._entitiesToAdd.push(entity);
     } else {
-      this._entities.set(entity.id, entity);
+      this._registerEntity(entity);
+    }
+
+    for (const child of entity.getChildren()) {
+      if (!child.getWorld()) {
+        this.addEntity(child);
+      }
     }
     return entity;
   }
@@ -34,9 +129,9 @@ export class World {
   /**
    * Create and add a new entity
    */
-  public createEntity(name?: string): Entity {
+  public createEntity(name?: string, options?: EntityIdOptions): Entity {
     const entity = new Entity(name);
-    this.addEntity(entity);
+    this.addEntity(entity, options);
     return entity;
   }
 
@@ -44,7 +139,7 @@ export class World {
    * Remove an entity from the world
    */
   public removeEntity(entity: Entity): void {
-    // Mark as inactive immediately so systems stop processing it
+    // Mark as inactive immediately so systems stop processing it (and its children)
     entity.active = false;
     if (this._isUpdating) {
       this._entitiesToRemove.push(entity);
@@ -61,29 +156,67 @@ export class World {
   }
 
   /**
-   * Get all active entities
+   * Check if a handle still refers to an entity in this world
+   * Handles of removed entities stay dead even after their ID is reused.
+   */
+  public isAlive(handle: EntityHandle): boolean {
+    return this._ids.isAlive(handle);
+  }
+
+  /**
+   * Get the entity a handle refers to, or undefined if it was removed
+   */
+  public resolve(handle: EntityHandle): Entity | undefined {
+    return this._ids.isAlive(handle) ? this._entities.get(handle.id) : undefined;
+  }
+
+  /**
+   * Allocate the ID of a component joining this world
+   * Called by Component; component IDs are not reused.
+   */
+  public allocateComponentId(): number {
+    return this._nextComponentId++;
+  }
+
+  /**
+   * Get all active entities (entities with an inactive ancestor are excluded)
    */
   public getAllEntities(): Entity[] {
-    return Array.from(this._entities.values()).filter(e => e.active);
+    return Array.from(this._entities.values()).filter(e => e.isActiveInHierarchy());
+  }
+
+  /**
+   * Get all active entities that have no parent
+   */
+  public getRootEntities(): Entity[] {
+    return Array.from(this._roots).filter(e => e.active);
   }
 
   /**
-   * Get entities with specific components
+   * Visit every entity in the world depth-first, parents before children
+   * Return false from the callback to skip an entity's children.
    */
-  public getEntitiesWithComponents(componentTypes: string[]): Entity[] {
+  public traverse(callback: (entity: Entity) => boolean | void): void {
+    for (const root of Array.from(this._roots)) {
+      root.traverse(callback);
+    }
+  }
+
+  /**
+   * Get entities with specific components (type names or ComponentTypes)
+   */
+  public getEntitiesWithComponents(componentTypes: ComponentKey[]): Entity[] {
     if (componentTypes.length === 0) {
       return this.getAllEntities();
     }
 
-    return this.getAllEntities().filter(entity => {
-      return componentTypes.every(type => entity.hasComponent(type));
-    });
+    return [...this.query(componentTypes).getEntities()];
   }
 
   /**
    * Query entities with any of the specified components
    */
-  public getEntitiesWithAnyComponent(componentTypes: string[]): Entity[] {
+  public getEntitiesWithAnyComponent(componentTypes: ComponentKey[]): Entity[] {
     if (componentTypes.length === 0) {
       return this.getAllEntities();
     }
@@ -93,12 +226,231 @@ export class World {
     });
   }
 
+  /**
+   * Get a cached query for entities with all of the specified components
+   * Queries are shared between callers with the same component set and are
+   * kept up to date incrementally, so they can be iterated every frame.
+   * Class component type names and ComponentTypes can be mixed.
+   */
+  public query(componentTypes: ComponentKey[]): Query {
+    const key = Query.getKey(componentTypes);
+    let query = this._queries.get(key);
+    if (!query) {
+      query = new Query(componentTypes);
+      for (const entity of this._entities.values()) {
+        query.refresh(entity);
+      }
+      this._queries.set(key, query);
+    }
+    return query;
+  }
+
+  /**
+   * Re-evaluate query membership for an entity
+   * Called by Entity when its components or active state change
+   */
+  public refreshEntity(entity: Entity): void {
+    if (this._entities.get(entity.id) !== entity) {
+      return;
+    }
+    for (const query of this._queries.values()) {
+      query.refresh(entity);
+    }
+  }
+
+  /**
+   * Keep track of root entities
+   * Called by Entity when its parent changes
+   */
+  public handleParentChanged(entity: Entity): void {
+    if (this._entities.get(entity.id) !== entity) {
+      return;
+    }
+    if (entity.getParent() === null) {
+      this._roots.add(entity);
+    } else {
+      this._roots.delete(entity);
+    }
+  }
+
+  /**
+   * Handle a component being added to an entity
+   * Called by Entity after the component has been attached
+   */
+  public handleComponentAdded(entity: Entity, component: Component): void {
+    if (this._entities.get(entity.id) !== entity) {
+      return;
+    }
+    this.refreshEntity(entity);
+    this._notifyComponentListeners(this._componentAddedListeners, entity, component);
+  }
+
+  /**
+   * Handle a component being removed from an entity
+   * Called by Entity after the component has been detached
+   */
+  public handleComponentRemoved(entity: Entity, component: Component): void {
+    if (this._entities.get(entity.id) !== entity) {
+      return;
+    }
+    this.refreshEntity(entity);
+    this._notifyComponentListeners(this._componentRemovedListeners, entity, component);
+  }
+
+  /**
+   * Handle a data component being added to (or replaced on) an entity
+   * Called by Entity after the value has been stored
+   */
+  public handleDataAdded(entity: Entity, type: ComponentType<unknown>, value: unknown): void {
+    if (this._entities.get(entity.id) !== entity) {
+      return;
+    }
+    this.refreshEntity(entity);
+    this._notifyDataListeners(this._dataAddedListeners, entity, type, value);
+  }
+
+  /**
+   * Handle a data component being removed from an entity
+   * Called by Entity after the value has been deleted
+   */
+  public handleDataRemoved(entity: Entity, type: ComponentType<unknown>, value: unknown): void {
+    if (this._entities.get(entity.id) !== entity) {
+      return;
+    }
+    this.refreshEntity(entity);
+    this._notifyDataListeners(this._dataRemovedListeners, entity, type, value);
+  }
+
+  /**
+   * Subscribe to components being added to entities in this world
+   * Also fires for the existing components of an entity when it joins the world.
+   * Pass a component type to only receive components of that type. Data
+   * components are only reported to listeners of their ComponentType, which
+   * receive the stored value (again whenever addData replaces it).
+   * Returns an unsubscribe function
+   */
+  public onComponentAdded(listener: ComponentListener): () => void;
+  public onComponentAdded<T extends Component>(componentType: string, listener: ComponentListener<T>): () => void;
+  public onComponentAdded<T>(componentType: ComponentType<T>, listener: DataComponentListener<T>): () => void;
+  public onComponentAdded(
+    typeOrListener: ComponentKey | ComponentListener,
+    listener?: ComponentListener<any> | DataComponentListener<any>
+  ): () => void {
+    if (isComponentType(typeOrListener)) {
+      return this._addListener(this._dataAddedListeners, typeOrListener.key, listener as DataComponentListener<unknown>);
+    }
+    return this._addComponentListener(this._componentAddedListeners, typeOrListener, listener as ComponentListener);
+  }
+
+  /**
+   * Subscribe to components being removed from entities in this world
+   * Also fires for the remaining components of an entity when it is destroyed.
+   * Pass a component type to only receive components of that type. Data
+   * components are only reported to listeners of their ComponentType, which
+   * receive the removed value.
+   * Returns an unsubscribe function
+   */
+  public onComponentRemoved(listener: ComponentListener): () => void;
+  public onComponentRemoved<T extends Component>(componentType: string, listener: ComponentListener<T>): () => void;
+  public onComponentRemoved<T>(componentType: ComponentType<T>, listener: DataComponentListener<T>): () => void;
+  public onComponentRemoved(
+    typeOrListener: ComponentKey | ComponentListener,
+    listener?: ComponentListener<any> | DataComponentListener<any>
+  ): () => void {
+    if (isComponentType(typeOrListener)) {
+      return this._addListener(this._dataRemovedListeners, typeOrListener.key, listener as DataComponentListener<unknown>);
+    }
+    return this._addComponentListener(this._componentRemovedListeners, typeOrListener, listener as ComponentListener);
+  }
+
+  /**
+   * Register a component lifecycle listener, optionally filtered by type
+   */
+  private _addComponentListener(
+    listeners: Map<string | null, Set<ComponentListener>>,
+    typeOrListener: string | ComponentListener,
+    listener?: ComponentListener
+  ): () => void {
+    const type = typeof typeOrListener === 'string' ? typeOrListener : null;
+    const callback = typeof typeOrListener === 'string' ? listener! : typeOrListener;
+    return this._addListener(listeners, type, callback);
+  }
+
+  /**
+   * Add a listener to the bucket of its key
+   */
+  private _addListener<K, L>(listeners: Map<K, Set<L>>, key: K, listener: L): () => void {
+    let bucket = listeners.get(key);
+    if (!bucket) {
+      bucket = new Set();
+      listeners.set(key, bucket);
+    }
+    bucket.add(listener);
+
+    return () => {
+      bucket?.delete(listener);
+      if (bucket && bucket.size === 0) {
+        listeners.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Notify typed and untyped component lifecycle listeners
+   */
+  private _notifyComponentListeners(
+    listeners: Map<string | null, Set<ComponentListener>>,
+    entity: Entity,
+    component: Component
+  ): void {
+    const typed = listeners.get(component.getType());
+    if (typed) {
+      for (const listener of [...typed]) {
+        listener(entity, component);
+      }
+    }
+
+    const untyped = listeners.get(null);
+    if (untyped) {
+      for (const listener of [...untyped]) {
+        listener(entity, component);
+      }
+    }
+  }
+
+  /**
+   * Notify the listeners of a data component type
+   */
+  private _notifyDataListeners(
+    listeners: Map<symbol, Set<DataComponentListener<unknown>>>,
+    entity: Entity,
+    type: ComponentType<unknown>,
+    value: unknown
+  ): void {
+    const typed = listeners.get(type.key);
+    if (typed) {
+      for (const listener of [...typed]) {
+        listener(entity, value);
+      }
+    }
+  }
+
   /**
    * Add a system to the world
+   * Throws if its before/after constraints form a cycle with existing systems.
    */
   public addSystem(system: System): System {
     this._systems.push(system);
-    this._systems.sort((a, b) => a.priority - b.priority);
+    this._schedule = null;
+
+    try {
+      this._getSchedule();
+    } catch (error) {
+      this._systems.splice(this._systems.indexOf(system), 1);
+      this._schedule = null;
+      throw error;
+    }
+
     system.onInit();
     return system;
   }
@@ -111,9 +463,46 @@ export class World {
     if (index > -1) {
       system.onDestroy();
       this._systems.splice(index, 1);
+      this._schedule = null;
+      this.profiler?.forgetSystem(system);
+    }
+  }
+
+  /**
+   * Rebuild the system order before the next run
+   * Not needed after changing a system's ordering fields, which are checked
+   * before every run.
+   */
+  public invalidateSchedule(): void {
+    this._schedule = null;
+  }
+
+  /**
+   * Enable or disable all systems of a group
+   * Systems in a disabled group are skipped regardless of their own enabled flag.
+   */
+  public setGroupEnabled(group: string, enabled: boolean): void {
+    if (enabled) {
+      this._disabledGroups.delete(group);
+    } else {
+      this._disabledGroups.add(group);
     }
   }
 
+  /**
+   * Check if a system group is enabled (groups are enabled by default)
+   */
+  public isGroupEnabled(group: string): boolean {
+    return !this._disabledGroups.has(group);
+  }
+
+  /**
+   * Get all systems of a group in execution order
+   */
+  public getSystemsInGroup(group: string): System[] {
+    return this._getSchedule().filter(system => system.group === group);
+  }
+
   /**
    * Get a system by type
    */
@@ -122,38 +511,209 @@ export class World {
   }
 
   /**
-   * Get all systems
+   * Get all systems in execution order
    */
   public getAllSystems(): System[] {
-    return [...this._systems];
+    return [...this._getSchedule()];
   }
 
   /**
    * Update all systems
    */
   public update(deltaTime: number): void {
+    this._runSystems(system => system.update(deltaTime), true, 'update');
+  }
+
+  /**
+   * Run the fixed-rate update phase of all systems
+   */
+  public fixedUpdate(fixedDeltaTime: number): void {
+    this._runSystems(system => system.fixedUpdate(fixedDeltaTime), true, 'fixedUpdate');
+  }
+
+  /**
+   * Run the render phase of all systems
+   * @param alpha - Interpolation between the last and next fixed step (0-1)
+   */
+  public render(alpha: number): void {
+    this._runSystems(system => system.render(alpha), false, 'render');
+  }
+
+  /**
+   * Run a phase on all enabled systems, deferring entity additions/removals
+   * to the sync points before the first system and after every system.
+   */
+  private _runSystems(run: (system: System) => void, pausable: boolean, pass: SystemRunPass): void {
     this._isUpdating = true;
 
-    // Update all enabled systems
-    for (const system of this._systems) {
-      if (system.enabled) {
-        system.update(deltaTime);
+    // A throwing system must not leave the world deferring changes forever
+    try {
+      this._syncPoint();
+
+      for (const system of this._getSchedule()) {
+        if (!this._isSystemRunnable(system, pausable)) {
+          continue;
+        }
+
+        if (this.profiler) {
+          const start = performance.now();
+          run(system);
+          this.profiler.recordSystem(system, pass, performance.now() - start, system.getEntityCount());
+        } else {
+          run(system);
+        }
+        this._syncPoint();
       }
+    } finally {
+      this._isUpdating = false;
     }
+  }
 
-    this._isUpdating = false;
-
-    // Process pending additions/removals
+  /**
+   * Play back recorded commands and apply pending entity additions/removals,
+   * so the next system sees entities spawned or removed before it
+   */
+  private _syncPoint(): void {
+    this.commands.playback();
     this._processPendingChanges();
   }
 
+  /**
+   * Check if a system takes part in the current run
+   */
+  private _isSystemRunnable(system: System, pausable: boolean): boolean {
+    if (!system.enabled || (system.group !== null && this._disabledGroups.has(system.group))) {
+      return false;
+    }
+    return !pausable || !this.paused || system.runWhilePaused;
+  }
+
+  /**
+   * Get the systems in execution order, rebuilding the order if needed
+   */
+  private _getSchedule(): System[] {
+    if (this._schedule && this._systems.some(system => this._hasOrderingChanged(system))) {
+      this._schedule = null;
+    }
+
+    if (!this._schedule) {
+      this._schedule = SYSTEM_PHASES.flatMap(phase =>
+        this._sortPhase(this._systems.filter(system => system.phase === phase))
+      );
+      this._scheduledOrderings = new Map(this._systems.map(system => [system, {
+        phase: system.phase,
+        priority: system.priority,
+        group: system.group,
+        before: [...system.before],
+        after: [...system.after],
+      }]));
+      this._checkCrossPhaseConstraints();
+    }
+    return this._schedule;
+  }
+
+  /**
+   * Check if a system's ordering fields changed since the schedule was built
+   */
+  private _hasOrderingChanged(system: System): boolean {
+    const ordering = this._scheduledOrderings.get(system);
+    if (!ordering) {
+      return true;
+    }
+
+    const sameTypes = (a: SystemClass[], b: SystemClass[]) =>
+      a.length === b.length && a.every((type, index) => type === b[index]);
+
+    return ordering.phase !== system.phase ||
+      ordering.priority !== system.priority ||
+      ordering.group !== system.group ||
+      !sameTypes(ordering.before, system.before) ||
+      !sameTypes(ordering.after, system.after);
+  }
+
+  /**
+   * Order the systems of one phase by their before/after constraints
+   * (topological sort), breaking ties by priority and then insertion order
+   */
+  private _sortPhase(systems: System[]): System[] {
+    const successors = new Map<System, Set<System>>(systems.map(system => [system, new Set()]));
+    const inDegree = new Map<System, number>(systems.map(system => [system, 0]));
+
+    const addEdge = (first: System, second: System): void => {
+      const edges = successors.get(first)!;
+      if (first !== second && !edges.has(second)) {
+        edges.add(second);
+        inDegree.set(second, inDegree.get(second)! + 1);
+      }
+    };
+
+    for (const system of systems) {
+      for (const other of systems) {
+        if (system.before.some(type => other instanceof type)) {
+          addEdge(system, other);
+        }
+        if (system.after.some(type => other instanceof type)) {
+          addEdge(other, system);
+        }
+      }
+    }
+
+    const compare = (a: System, b: System): number =>
+      a.priority - b.priority || this._systems.indexOf(a) - this._systems.indexOf(b);
+
+    const ready = systems.filter(system => inDegree.get(system) === 0);
+    const sorted: System[] = [];
+
+    while (ready.length > 0) {
+      ready.sort(compare);
+      const next = ready.shift()!;
+      sorted.push(next);
+
+      for (const successor of successors.get(next)!) {
+        const degree = inDegree.get(successor)! - 1;
+        inDegree.set(successor, degree);
+        if (degree === 0) {
+          ready.push(successor);
+        }
+      }
+    }
+
+    if (sorted.length < systems.length) {
+      const cycle = systems.filter(system => !sorted.includes(system)).map(system => system.constructor.name);
+      throw new Error(`World: Circular before/after constraints between systems: ${cycle.join(', ')}`);
+    }
+
+    return sorted;
+  }
+
+  /**
+   * Warn about before/after constraints contradicted by the systems' phases
+   */
+  private _checkCrossPhaseConstraints(): void {
+    const phaseIndex = (system: System) => SYSTEM_PHASES.indexOf(system.phase);
+
+    for (const system of this._systems) {
+      for (const other of this._systems) {
+        const runsBefore = system.before.some(type => other instanceof type);
+        const runsAfter = system.after.some(type => other instanceof type);
+        if ((runsBefore && phaseIndex(system) > phaseIndex(other)) ||
+            (runsAfter && phaseIndex(system) < phaseIndex(other))) {
+          console.warn(
+            `⚠️ World: ${system.constructor.name} (${system.phase}) cannot run ` +
+            `${runsBefore ? 'before' : 'after'} ${other.constructor.name} (${other.phase}); phases take precedence`
+          );
+        }
+      }
+    }
+  }
+
   /**
    * Process pending entity additions and removals
    */
   private _processPendingChanges(): void {
     // Add new entities
     for (const entity of this._entitiesToAdd) {
-      this._entities.set(entity.id, entity);
+      this._registerEntity(entity);
     }
     this._entitiesToAdd = [];
 
@@ -164,12 +724,39 @@ export class World {
     this._entitiesToRemove = [];
   }
 
+  /**
+   * Register an entity in the world and its queries
+   */
+  private _registerEntity(entity: Entity): void {
+    this._entities.set(entity.id, entity);
+    if (entity.getParent() === null) {
+      this._roots.add(entity);
+    }
+    this.refreshEntity(entity);
+    for (const component of entity.getAllComponents()) {
+      this._notifyComponentListeners(this._componentAddedListeners, entity, component);
+    }
+    for (const { type, value } of entity.getAllData()) {
+      this._notifyDataListeners(this._dataAddedListeners, entity, type, value);
+    }
+  }
+
   /**
    * Actually remove an entity from the world
    */
   private _performEntityRemoval(entity: Entity): void {
+    for (const query of this._queries.values()) {
+      query.remove(entity);
+    }
     entity.finalizeDestroy();
-    this._entities.delete(entity.id);
+
+    if (this._entities.get(entity.id) === entity) {
+      this._entities.delete(entity.id);
+      this._roots.delete(entity);
+    }
+    if (this._ids.isAlive(entity.getHandle())) {
+      this._ids.release(entity.id);
+    }
   }
 
   /**
@@ -181,12 +768,27 @@ export class World {
       system.onDestroy();
     }
     this._systems = [];
+    this._schedule = null;
+    this._scheduledOrderings.clear();
+    this._disabledGroups.clear();
+    this.commands.clear();
 
     // Destroy all entities
     for (const entity of this._entities.values()) {
       entity.finalizeDestroy();
     }
     this._entities.clear();
+    this._roots.clear();
+    this._ids.clear();
+    this._nextComponentId = 0;
+    for (const query of this._queries.values()) {
+      query.clear();
+    }
+    this._queries.clear();
+    this._componentAddedListeners.clear();
+    this._componentRemovedListeners.clear();
+    this._dataAddedListeners.clear();
+    this._dataRemovedListeners.clear();
     this._entitiesToAdd = [];
     this._entitiesToRemove = [];
   }
@@ -6,7 +6,10 @@
  * 2. Type-safe data components (mining-web style)
  */
 
+export * from './CommandBuffer';
 export * from './Component';
 export * from './Entity';
+export * from './EntityIdAllocator';
+export * from './Query';
 export * from './System';
 export * from './World';
@@ -2,100 +2,525 @@
  * Event Bus - Decoupled event-driven communication
  * 
  * Provides a publish-subscribe pattern for game events.
- * Supports both typed and untyped event handling.
+ * Supports both typed and untyped event handling: pass an event map to
+ * check event names and payloads at compile time, or omit it to accept
+ * any event name with any payload.
+ * 
+ * @example
+ * ```typescript
+ * interface GameEvents {
+ *   'tower:placed': { x: number; y: number };
+ *   'wave:started': { wave: number };
+ * }
+ * 
+ * const bus = new EventBus<GameEvents>();
+ * bus.on('tower:placed', ({ x, y }) => console.log(x, y));
+ * bus.emit('wave:started', { wave: 1 });
+ * 
+ * // Deferred dispatch: delivered on the next flush()
+ * bus.enqueue('tower:placed', { x: 10, y: 20 });
+ * bus.flush();
+ * 
+ * // Higher priority listeners run first
+ * bus.on('wave:started', startMusic, { priority: 10 });
+ * 
+ * // Patterns: '*' matches one ':'-separated segment, '**' matches anything
+ * bus.on('wave:*', (payload, event) => console.log(event, payload));
+ * bus.on('**', (payload, event) => recorder.record(event, payload));
+ * ```
+ * 
+ * Listeners are called in priority order (registration order for equal
+ * priorities) from a snapshot taken when the event is emitted: listeners
+ * added during dispatch wait for the next emit, and listeners removed during
+ * dispatch are skipped. An exception thrown by one listener is reported to
+ * the error handler and does not stop the remaining listeners.
  */
 
 export type EventCallback<T = any> = (data: T) => void;
-type ListenerMap = Map<string, Set<EventCallback<unknown>>>;
+
+/**
+ * Event name pattern: '*' matches one ':'-separated segment, '**' matches anything
+ */
+export type EventPattern = `${string}*${string}`;
+
+/**
+ * Handler for exceptions thrown by listeners
+ */
+export type EventErrorHandler = (
+  error: unknown,
+  event: string,
+  listener: EventCallback | PatternEventCallback
+) => void;
+
+/**
+ * Options for event subscriptions
+ */
+export interface ListenerOptions {
+  /** Listeners with higher priority are called first. Default: 0 */
+  priority?: number;
+  /** Remove the listener after its first call */
+  once?: boolean;
+}
+
+interface ListenerEntry {
+  listener: (data: unknown, event: string) => void;
+  priority: number;
+  once: boolean;
+  active: boolean;
+  order: number;
+}
+
+type ListenerMap = Map<string, ListenerEntry[]>;
+
+/**
+ * Map of event names to payload types
+ * Interfaces are accepted so maps can be extended through declaration merging.
+ */
+export type EventMap = Record<string, any>;
+
+/**
+ * Event names of an event map
+ */
+export type EventName<TEvents extends EventMap> = keyof TEvents & string;
+
+/**
+ * Event name of the string overloads, which need an explicit payload type
+ * (`bus.on<Payload>('x', listener)`) and otherwise accept no event at all
+ */
+export type ExplicitEventName<T> = [T] extends [never] ? never : string;
+
+/**
+ * Payload of the string overloads; never inferred, so it must be explicit
+ */
+export type ExplicitPayload<T> = [T][T extends any ? 0 : never];
+
+/**
+ * Callback for pattern subscriptions, receives the emitted event name as well
+ */
+export type PatternEventCallback<TEvents extends EventMap = EventMap> = (
+  data: TEvents[EventName<TEvents>],
+  event: EventName<TEvents>
+) => void;
+
+/**
+ * EventBus configuration options
+ */
+export interface EventBusOptions {
+  /**
+   * Maximum number of passes per flush. Events enqueued by listeners during a
+   * flush are dispatched in a further pass; once the limit is reached they stay
+   * queued until the next flush. Default: 10
+   */
+  maxFlushPasses?: number;
+  /** Coalesce duplicate queued events by default. Default: false */
+  coalesce?: boolean;
+  /** Called when a listener throws. Default: log with console.error */
+  onError?: EventErrorHandler;
+}
+
+/**
+ * Options for enqueued events
+ */
+export interface EnqueueOptions {
+  /**
+   * Replace the payload of an already queued event with the same name instead
+   * of queuing a duplicate (the event keeps its original position)
+   */
+  coalesce?: boolean;
+}
+
+/**
+ * Maximum number of event names whose matching patterns are cached
+ * (the oldest entry is evicted first)
+ */
+const MAX_CACHED_PATTERN_MATCHES = 512;
+
+interface QueuedEvent {
+  event: string;
+  payload: unknown;
+}
 
 /**
  * EventBus interface for type-safe implementations
  */
-export interface EventBusLike {
-  emit<T>(event: string, payload: T): void;
-  on<T>(event: string, listener: EventCallback<T>): () => void;
+export interface EventBusLike<TEvents extends EventMap = EventMap> {
+  emit<K extends EventName<TEvents>>(event: K, payload: TEvents[K]): void;
+  emit<T = never>(event: ExplicitEventName<T>, payload: ExplicitPayload<T>): void;
+  on<K extends EventName<TEvents>>(event: K, listener: EventCallback<TEvents[K]>): () => void;
+  on<T = never>(event: ExplicitEventName<T>, listener: EventCallback<ExplicitPayload<T>>): () => void;
+}
+
+/**
+ * Receives dispatch timings when installed as `bus.profiler`
+ */
+export interface EventDispatchProfiler {
+  /**
+   * Called after an event was dispatched to its listeners (duration in
+   * milliseconds, including events emitted by those listeners)
+   */
+  recordDispatch(event: string, duration: number): void;
 }
 
 /**
  * EventBus - Simple, efficient event system
  * Suitable for most use cases with minimal overhead
  */
-export class EventBus implements EventBusLike {
+export class EventBus<TEvents extends EventMap = EventMap> implements EventBusLike<TEvents> {
   private listeners: ListenerMap = new Map();
+  private patterns: Map<string, RegExp> = new Map();
+  private patternMatches: Map<string, string[]> = new Map();
+  private nextListenerOrder = 0;
+  private queue: QueuedEvent[] = [];
+  private coalescedEvents: Map<string, QueuedEvent> = new Map();
+  private flushing = false;
+  private readonly maxFlushPasses: number;
+  private readonly coalesceByDefault: boolean;
+  private errorHandler: EventErrorHandler | null;
+  private dispatchDepth = 0;
+
+  /**
+   * Measures every dispatch when set (see FrameProfiler)
+   */
+  public profiler: EventDispatchProfiler | null = null;
+
+  constructor(options: EventBusOptions = {}) {
+    this.maxFlushPasses = options.maxFlushPasses ?? 10;
+    this.coalesceByDefault = options.coalesce ?? false;
+    this.errorHandler = options.onError ?? null;
+  }
 
   /**
    * Emit an event with optional payload
    */
-  emit<T>(event: string, payload: T): void {
-    const bucket = this.listeners.get(event);
-    if (!bucket) {
-      return;
+  emit<K extends EventName<TEvents>>(event: K, payload: TEvents[K]): void;
+  emit<T = never>(event: ExplicitEventName<T>, payload: ExplicitPayload<T>): void;
+  emit(event: string, payload: unknown): void {
+    // Nested emits are timed as part of the outermost dispatch
+    const profiler = this.dispatchDepth === 0 ? this.profiler : null;
+    const start = profiler ? performance.now() : 0;
+    this.dispatchDepth++;
+
+    try {
+      this.dispatch(event, payload);
+    } finally {
+      this.dispatchDepth--;
+      profiler?.recordDispatch(event, performance.now() - start);
     }
+  }
+
+  /**
+   * Call the listeners of an event
+   */
+  private dispatch(event: string, payload: unknown): void {
+    const entries = this.collectListeners(event);
 
-    for (const handler of bucket) {
-      (handler as EventCallback<T>)(payload);
+    for (const [key, entry] of entries) {
+      if (!entry.active) {
+        continue;
+      }
+      if (entry.once) {
+        this.removeEntry(key, entry);
+      }
+
+      try {
+        entry.listener(payload, event);
+      } catch (error) {
+        this.handleError(error, event, entry.listener);
+      }
     }
   }
 
   /**
-   * Subscribe to an event
+   * Set the handler for exceptions thrown by listeners
+   * Pass null to restore the default (log with console.error)
+   */
+  setErrorHandler(handler: EventErrorHandler | null): void {
+    this.errorHandler = handler;
+  }
+
+  /**
+   * Queue an event to be emitted on the next flush()
+   */
+  enqueue<K extends EventName<TEvents>>(event: K, payload: TEvents[K], options?: EnqueueOptions): void {
+    if (options?.coalesce ?? this.coalesceByDefault) {
+      const queued = this.coalescedEvents.get(event);
+      if (queued) {
+        queued.payload = payload;
+        return;
+      }
+    }
+
+    const queued: QueuedEvent = { event, payload };
+    this.queue.push(queued);
+    if (options?.coalesce ?? this.coalesceByDefault) {
+      this.coalescedEvents.set(event, queued);
+    }
+  }
+
+  /**
+   * Emit all queued events in the order they were queued
+   * Events queued by listeners during the flush are emitted in further passes,
+   * up to the configured maximum number of passes.
+   * Returns the number of events emitted
+   */
+  flush(): number {
+    if (this.flushing) {
+      return 0;
+    }
+
+    this.flushing = true;
+    let emitted = 0;
+    let passes = 0;
+
+    try {
+      while (this.queue.length > 0) {
+        if (passes >= this.maxFlushPasses) {
+          console.warn(`⚠️ EventBus: flush stopped after ${passes} passes, ${this.queue.length} events deferred to next flush`);
+          break;
+        }
+
+        const batch = this.queue;
+        this.queue = [];
+        this.coalescedEvents.clear();
+
+        for (const { event, payload } of batch) {
+          this.emit(event as EventName<TEvents>, payload as TEvents[EventName<TEvents>]);
+          emitted++;
+        }
+        passes++;
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    return emitted;
+  }
+
+  /**
+   * Get the number of queued events
+   */
+  getQueuedCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Drop all queued events without emitting them
+   */
+  clearQueue(): void {
+    this.queue = [];
+    this.coalescedEvents.clear();
+  }
+
+  /**
+   * Subscribe to an event, or to every event matching a pattern
+   * Subscribing a listener that is already subscribed to the event keeps its
+   * position and priority, but takes the new once option: once() makes a
+   * persistent listener one-shot and on() makes a one-shot listener persistent.
    * Returns an unsubscribe function
    */
-  on<T>(event: string, listener: EventCallback<T>): () => void {
+  on(pattern: EventPattern, listener: PatternEventCallback<TEvents>, options?: ListenerOptions): () => void;
+  on<K extends EventName<TEvents>>(event: K, listener: EventCallback<TEvents[K]>, options?: ListenerOptions): () => void;
+  on<T = never>(event: ExplicitEventName<T>, listener: EventCallback<ExplicitPayload<T>>, options?: ListenerOptions): () => void;
+  on(event: string, listener: (data: any, event: any) => void, options?: ListenerOptions): () => void {
     let bucket = this.listeners.get(event);
     if (!bucket) {
-      bucket = new Set();
+      bucket = [];
       this.listeners.set(event, bucket);
+      if (event.includes('*')) {
+        this.patterns.set(event, EventBus.compilePattern(event));
+        this.patternMatches.clear();
+      }
     }
 
-    bucket.add(listener as EventCallback<unknown>);
+    let entry = bucket.find(e => e.listener === listener);
+    if (entry) {
+      entry.once = options?.once ?? false;
+    } else {
+      entry = {
+        listener,
+        priority: options?.priority ?? 0,
+        once: options?.once ?? false,
+        active: true,
+        order: this.nextListenerOrder++
+      };
 
-    return () => {
-      bucket?.delete(listener as EventCallback<unknown>);
-      if (bucket && bucket.size === 0) {
-        this.listeners.delete(event);
+      // Keep the bucket sorted by priority, after existing equal priorities
+      const priority = entry.priority;
+      const index = bucket.findIndex(e => e.priority < priority);
+      if (index === -1) {
+        bucket.push(entry);
+      } else {
+        bucket.splice(index, 0, entry);
       }
-    };
+    }
+
+    const subscribed = entry;
+    return () => this.removeEntry(event, subscribed);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   * Returns an unsubscribe function
+   */
+  once(pattern: EventPattern, listener: PatternEventCallback<TEvents>, options?: Omit<ListenerOptions, 'once'>): () => void;
+  once<K extends EventName<TEvents>>(event: K, listener: EventCallback<TEvents[K]>, options?: Omit<ListenerOptions, 'once'>): () => void;
+  once(event: string, listener: (data: any, event: any) => void, options?: Omit<ListenerOptions, 'once'>): () => void {
+    return this.on(event as EventPattern, listener, { ...options, once: true });
   }
 
   /**
    * Remove a specific listener
    */
-  off<T>(event: string, listener: EventCallback<T>): void {
-    const bucket = this.listeners.get(event);
-    if (bucket) {
-      bucket.delete(listener as EventCallback<unknown>);
-      if (bucket.size === 0) {
-        this.listeners.delete(event);
-      }
+  off(pattern: EventPattern, listener: PatternEventCallback<TEvents>): void;
+  off<K extends EventName<TEvents>>(event: K, listener: EventCallback<TEvents[K]>): void;
+  off<T = never>(event: ExplicitEventName<T>, listener: EventCallback<ExplicitPayload<T>>): void;
+  off(event: string, listener: (data: any, event: any) => void): void {
+    const entry = this.listeners.get(event)?.find(e => e.listener === listener);
+    if (entry) {
+      this.removeEntry(event, entry);
     }
   }
 
   /**
-   * Remove all listeners for an event
+   * Remove all listeners for an event or pattern, or all listeners and queued events
    */
-  clear(event?: string): void {
+  clear(event?: EventName<TEvents> | EventPattern): void {
     if (event) {
-      this.listeners.delete(event);
+      this.deactivate(this.listeners.get(event));
+      this.deleteBucket(event);
     } else {
+      for (const bucket of this.listeners.values()) {
+        this.deactivate(bucket);
+      }
       this.listeners.clear();
+      this.patterns.clear();
+      this.patternMatches.clear();
+      this.clearQueue();
     }
   }
 
   /**
-   * Check if an event has listeners
+   * Check if an event or pattern has listeners subscribed to it directly
+   */
+  hasListeners(event: EventName<TEvents> | EventPattern): boolean {
+    return this.getListenerCount(event) > 0;
+  }
+
+  /**
+   * Get the number of listeners subscribed directly to an event or pattern
+   * Listeners of other patterns that match the event are not counted.
+   */
+  getListenerCount(event: EventName<TEvents> | EventPattern): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  /**
+   * Get all event names (not patterns) that have listeners
+   */
+  getEventNames(): EventName<TEvents>[] {
+    return Array.from(this.listeners.keys()).filter(event => !this.patterns.has(event));
+  }
+
+  /**
+   * Convert an event pattern into a regular expression
    */
-  hasListeners(event: string): boolean {
+  private static compilePattern(pattern: string): RegExp {
+    const source = pattern
+      .split('**')
+      .map(part => part
+        .split('*')
+        .map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^:]*'))
+      .join('.*');
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Get a snapshot of the listeners for an event (exact and pattern) in dispatch order
+   */
+  private collectListeners(event: string): Array<[string, ListenerEntry]> {
     const bucket = this.listeners.get(event);
-    return bucket ? bucket.size > 0 : false;
+    const entries: Array<[string, ListenerEntry]> = bucket ? bucket.map(entry => [event, entry]) : [];
+
+    if (this.patterns.size === 0 || this.patterns.has(event)) {
+      return entries;
+    }
+
+    let matches = this.patternMatches.get(event);
+    if (!matches) {
+      matches = [];
+      for (const [pattern, regex] of this.patterns) {
+        if (regex.test(event)) {
+          matches.push(pattern);
+        }
+      }
+      if (this.patternMatches.size >= MAX_CACHED_PATTERN_MATCHES) {
+        this.patternMatches.delete(this.patternMatches.keys().next().value!);
+      }
+      this.patternMatches.set(event, matches);
+    }
+
+    if (matches.length === 0) {
+      return entries;
+    }
+
+    for (const pattern of matches) {
+      for (const entry of this.listeners.get(pattern) ?? []) {
+        entries.push([pattern, entry]);
+      }
+    }
+
+    return entries.sort(([, a], [, b]) => b.priority - a.priority || a.order - b.order);
   }
 
   /**
-   * Get the number of listeners for an event
+   * Delete the listener bucket (and pattern matcher) for an event or pattern
    */
-  getListenerCount(event: string): number {
+  private deleteBucket(event: string): void {
+    this.listeners.delete(event);
+    if (this.patterns.delete(event)) {
+      this.patternMatches.clear();
+    }
+  }
+
+  /**
+   * Remove a listener entry so it is skipped by in-progress dispatches
+   */
+  private removeEntry(event: string, entry: ListenerEntry): void {
+    entry.active = false;
+
     const bucket = this.listeners.get(event);
-    return bucket ? bucket.size : 0;
+    if (!bucket) {
+      return;
+    }
+
+    const index = bucket.indexOf(entry);
+    if (index > -1) {
+      bucket.splice(index, 1);
+    }
+    if (bucket.length === 0) {
+      this.deleteBucket(event);
+    }
+  }
+
+  /**
+   * Mark listener entries as removed
+   */
+  private deactivate(bucket: ListenerEntry[] | undefined): void {
+    for (const entry of bucket ?? []) {
+      entry.active = false;
+    }
+  }
+
+  /**
+   * Report a listener exception without interrupting dispatch
+   */
+  private handleError(error: unknown, event: string, listener: EventCallback | PatternEventCallback): void {
+    if (this.errorHandler) {
+      this.errorHandler(error, event, listener);
+    } else {
+      console.error(`❌ EventBus: listener for '${event}' threw:`, error);
+    }
   }
 }
 
@@ -0,0 +1,588 @@
+/**
+ * Action Map
+ *
+ * Maps named actions ("jump"), axes ("moveX") and vectors ("move") to
+ * keyboard keys, mouse buttons and gamepad inputs, so systems query
+ * intentions instead of raw key codes. Bindings are plain JSON-friendly
+ * objects and can be changed at runtime, including by listening for the
+ * next input the player makes (see rebind()).
+ *
+ * @example
+ * ```typescript
+ * const actions = new ActionMap(engine.input)
+ *   .defineAction('jump', [{ device: 'key', code: 'Space' }, { device: 'gamepad', button: GamepadButton.A }])
+ *   .defineAction('save', [{ device: 'key', code: 'KeyS', modifiers: ['Control'] }])
+ *   .defineVector('move', [
+ *     { type: 'composite', up: { device: 'key', code: 'KeyW' }, down: { device: 'key', code: 'KeyS' },
+ *       left: { device: 'key', code: 'KeyA' }, right: { device: 'key', code: 'KeyD' } },
+ *     { type: 'stick', stick: 'left' },
+ *   ]);
+ *
+ * if (actions.isJustPressed('jump')) { ... }
+ * const { x, y } = actions.getVector('move');
+ * ```
+ */
+
+import { GamepadAxis, type GamepadButton } from './GamepadInput';
+import type { InputManager, MouseButton } from './InputManager';
+
+/**
+ * Modifier keys for chords (either the left or the right key satisfies them)
+ */
+export type ModifierKey = 'Shift' | 'Control' | 'Alt' | 'Meta';
+
+const MODIFIER_KEYS: readonly ModifierKey[] = ['Shift', 'Control', 'Alt', 'Meta'];
+
+/**
+ * A single physical input. Button-like inputs read 0 or 1; gamepad buttons
+ * and axes read their analog value (0-1). Gamepad bindings without a pad
+ * index read from any connected pad.
+ */
+export type InputBinding =
+  | { device: 'key'; code: string; modifiers?: ModifierKey[] }
+  | { device: 'mouse'; button: MouseButton; modifiers?: ModifierKey[] }
+  | { device: 'gamepad'; button: GamepadButton; pad?: number }
+  | { device: 'gamepadAxis'; axis: GamepadAxis; direction: 1 | -1; pad?: number };
+
+/**
+ * Source of a -1 to 1 axis value
+ */
+export type AxisBinding =
+  | { type: 'composite'; negative: InputBinding; positive: InputBinding }
+  | { type: 'gamepadAxis'; axis: GamepadAxis; invert?: boolean; pad?: number };
+
+/**
+ * Source of a 2D vector (length at most 1, Y pointing down like the stage)
+ */
+export type VectorBinding =
+  | { type: 'composite'; up: InputBinding; down: InputBinding; left: InputBinding; right: InputBinding }
+  | { type: 'stick'; stick: 'left' | 'right'; pad?: number };
+
+/**
+ * Serialized bindings of an ActionMap
+ */
+export interface ActionMapData {
+  actions: Record<string, InputBinding[]>;
+  axes: Record<string, AxisBinding[]>;
+  vectors: Record<string, VectorBinding[]>;
+}
+
+export interface ActionMapOptions {
+  /** Analog value at which an action counts as pressed (default: 0.5) */
+  pressThreshold?: number;
+}
+
+/**
+ * Devices that rebind() listens to
+ */
+export type RebindDevice = 'key' | 'mouse' | 'gamepad' | 'gamepadAxis';
+
+export interface RebindOptions {
+  /** Binding slot to replace (default: append a new binding) */
+  index?: number;
+  /** Devices to listen to (default: all) */
+  devices?: RebindDevice[];
+  /** Keys that cancel listening (default: ['Escape']) */
+  cancelKeys?: string[];
+  /** Give up after this many milliseconds */
+  timeout?: number;
+}
+
+interface ActionState {
+  pressed: boolean;
+  justPressed: boolean;
+  justReleased: boolean;
+  value: number;
+}
+
+interface PendingRebind {
+  devices: Set<RebindDevice>;
+  cancelKeys: Set<string>;
+  /** A modifier pressed on its own, bound when released without another key */
+  heldModifier: string | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  resolve: (binding: InputBinding | null) => void;
+}
+
+/**
+ * ActionMap - Named actions, axes and vectors over an InputManager
+ *
+ * Action states are updated at the end of InputManager.beginFrame(), so
+ * isJustPressed()/isJustReleased() describe the action as a whole: holding
+ * Space and then pressing the gamepad's A button does not press "jump" again.
+ *
+ * A chord binding (e.g. Control+S) takes precedence over plain bindings of
+ * the same key: while it is held, bindings of S without modifiers are ignored.
+ */
+export class ActionMap {
+  private readonly input: InputManager;
+  private readonly pressThreshold: number;
+  private actions = new Map<string, InputBinding[]>();
+  private axes = new Map<string, AxisBinding[]>();
+  private vectors = new Map<string, VectorBinding[]>();
+  private states = new Map<string, ActionState>();
+  private pending: PendingRebind | null = null;
+  private unsubscribe: (() => void) | null;
+
+  constructor(input: InputManager, data?: ActionMapData, options: ActionMapOptions = {}) {
+    this.input = input;
+    this.pressThreshold = options.pressThreshold ?? 0.5;
+    this.unsubscribe = input.onBeginFrame(this.handleFrame);
+
+    if (data) {
+      this.load(data);
+    }
+  }
+
+  /**
+   * Create an action map from serialized bindings
+   */
+  static fromJSON(input: InputManager, data: ActionMapData | string, options?: ActionMapOptions): ActionMap {
+    return new ActionMap(input, typeof data === 'string' ? JSON.parse(data) : data, options);
+  }
+
+  /**
+   * Define an action, replacing its bindings if it exists
+   */
+  defineAction(name: string, bindings: InputBinding[]): this {
+    this.actions.set(name, [...bindings]);
+    if (!this.states.has(name)) {
+      this.states.set(name, { pressed: false, justPressed: false, justReleased: false, value: 0 });
+    }
+    return this;
+  }
+
+  /**
+   * Define an axis, replacing its bindings if it exists
+   */
+  defineAxis(name: string, bindings: AxisBinding[]): this {
+    this.axes.set(name, [...bindings]);
+    return this;
+  }
+
+  /**
+   * Define a vector, replacing its bindings if it exists
+   */
+  defineVector(name: string, bindings: VectorBinding[]): this {
+    this.vectors.set(name, [...bindings]);
+    return this;
+  }
+
+  /**
+   * Remove an action, axis or vector
+   */
+  remove(name: string): boolean {
+    this.states.delete(name);
+    const removed = [this.actions.delete(name), this.axes.delete(name), this.vectors.delete(name)];
+    return removed.includes(true);
+  }
+
+  /**
+   * Get the bindings of an action
+   */
+  getBindings(action: string): InputBinding[] {
+    return [...(this.actions.get(action) ?? [])];
+  }
+
+  /**
+   * Replace one binding of an action, or append it when index is omitted
+   */
+  setBinding(action: string, binding: InputBinding, index?: number): void {
+    const bindings = this.requireAction(action);
+    if (index === undefined || index >= bindings.length) {
+      bindings.push(binding);
+    } else {
+      bindings[index] = binding;
+    }
+  }
+
+  /**
+   * Remove one binding of an action
+   */
+  removeBinding(action: string, index: number): void {
+    this.requireAction(action).splice(index, 1);
+  }
+
+  /**
+   * Get the names of all actions, axes and vectors
+   */
+  getNames(): { actions: string[]; axes: string[]; vectors: string[] } {
+    return {
+      actions: Array.from(this.actions.keys()),
+      axes: Array.from(this.axes.keys()),
+      vectors: Array.from(this.vectors.keys()),
+    };
+  }
+
+  /**
+   * Check if an action is held
+   */
+  isPressed(action: string): boolean {
+    return this.states.get(action)?.pressed ?? false;
+  }
+
+  /**
+   * Check if an action started this frame
+   */
+  isJustPressed(action: string): boolean {
+    return this.states.get(action)?.justPressed ?? false;
+  }
+
+  /**
+   * Check if an action ended this frame
+   */
+  isJustReleased(action: string): boolean {
+    return this.states.get(action)?.justReleased ?? false;
+  }
+
+  /**
+   * Get the strongest value (0-1) of an action's bindings
+   */
+  getValue(action: string): number {
+    return this.states.get(action)?.value ?? 0;
+  }
+
+  /**
+   * Get an axis value (-1 to 1), from the binding with the largest magnitude
+   */
+  getAxis(name: string): number {
+    let result = 0;
+
+    for (const binding of this.axes.get(name) ?? []) {
+      const value = binding.type === 'composite'
+        ? this.readBinding(binding.positive) - this.readBinding(binding.negative)
+        : this.readPads(binding.pad, pad => this.input.gamepads.getAxis(binding.axis, pad)) * (binding.invert ? -1 : 1);
+
+      if (Math.abs(value) > Math.abs(result)) {
+        result = value;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a vector (length at most 1), from the binding with the largest magnitude
+   */
+  getVector(name: string): { x: number; y: number } {
+    let result = { x: 0, y: 0 };
+    let resultLength = 0;
+
+    for (const binding of this.vectors.get(name) ?? []) {
+      let vector: { x: number; y: number };
+
+      if (binding.type === 'composite') {
+        vector = {
+          x: this.readBinding(binding.right) - this.readBinding(binding.left),
+          y: this.readBinding(binding.down) - this.readBinding(binding.up),
+        };
+        // Diagonals are not faster than straight movement
+        const length = Math.hypot(vector.x, vector.y);
+        if (length > 1) {
+          vector = { x: vector.x / length, y: vector.y / length };
+        }
+      } else {
+        vector = this.readStick(binding.stick, binding.pad);
+      }
+
+      const length = Math.hypot(vector.x, vector.y);
+      if (length > resultLength) {
+        result = vector;
+        resultLength = length;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Listen for the next input and bind it to an action
+   *
+   * Resolves with the new binding, or null if listening was cancelled (by a
+   * cancel key, the timeout, cancelRebind() or another rebind() call). A
+   * modifier key pressed first becomes part of a chord with the next key or
+   * mouse button; released on its own, it is bound by itself.
+   */
+  rebind(action: string, options: RebindOptions = {}): Promise<InputBinding | null> {
+    this.requireAction(action);
+
+    return this.listenForBinding(options).then(binding => {
+      if (binding && this.actions.has(action)) {
+        this.setBinding(action, binding, options.index);
+      }
+      return binding;
+    });
+  }
+
+  /**
+   * Listen for the next input without binding it (e.g. for axis or vector parts)
+   */
+  listenForBinding(options: Omit<RebindOptions, 'index'> = {}): Promise<InputBinding | null> {
+    this.cancelRebind();
+
+    return new Promise(resolve => {
+      const pending: PendingRebind = {
+        devices: new Set(options.devices ?? ['key', 'mouse', 'gamepad', 'gamepadAxis']),
+        cancelKeys: new Set(options.cancelKeys ?? ['Escape']),
+        heldModifier: null,
+        timer: null,
+        resolve: binding => {
+          if (pending.timer !== null) {
+            clearTimeout(pending.timer);
+          }
+          if (this.pending === pending) {
+            this.pending = null;
+          }
+          resolve(binding);
+        },
+      };
+
+      if (options.timeout !== undefined) {
+        pending.timer = setTimeout(() => pending.resolve(null), options.timeout);
+      }
+
+      this.pending = pending;
+    });
+  }
+
+  /**
+   * Check if rebind() is waiting for input
+   */
+  isRebinding(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Stop listening for input (the pending rebind resolves with null)
+   */
+  cancelRebind(): void {
+    this.pending?.resolve(null);
+  }
+
+  /**
+   * Serialize all bindings
+   */
+  toJSON(): ActionMapData {
+    const copy = <T>(map: Map<string, T[]>): Record<string, T[]> =>
+      JSON.parse(JSON.stringify(Object.fromEntries(map)));
+
+    return {
+      actions: copy(this.actions),
+      axes: copy(this.axes),
+      vectors: copy(this.vectors),
+    };
+  }
+
+  /**
+   * Replace all bindings with serialized ones
+   */
+  load(data: ActionMapData): void {
+    this.actions.clear();
+    this.axes.clear();
+    this.vectors.clear();
+    this.states.clear();
+
+    for (const [name, bindings] of Object.entries(data.actions ?? {})) {
+      this.defineAction(name, bindings);
+    }
+    for (const [name, bindings] of Object.entries(data.axes ?? {})) {
+      this.defineAxis(name, bindings);
+    }
+    for (const [name, bindings] of Object.entries(data.vectors ?? {})) {
+      this.defineVector(name, bindings);
+    }
+  }
+
+  /**
+   * Stop tracking input and cancel any pending rebind
+   */
+  destroy(): void {
+    this.cancelRebind();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Update action states and pending rebinds (after InputManager.beginFrame)
+   */
+  private handleFrame = () => {
+    for (const [name, bindings] of this.actions) {
+      const state = this.states.get(name)!;
+      const value = bindings.reduce((max, binding) => Math.max(max, this.readBinding(binding)), 0);
+      const pressed = value >= this.pressThreshold;
+
+      state.justPressed = pressed && !state.pressed;
+      state.justReleased = !pressed && state.pressed;
+      state.pressed = pressed;
+      state.value = value;
+    }
+
+    if (this.pending) {
+      this.pollRebind(this.pending);
+    }
+  };
+
+  /**
+   * Check this frame's input for a binding to capture
+   */
+  private pollRebind(pending: PendingRebind): void {
+    const input = this.input;
+
+    for (const code of input.getJustPressedKeys()) {
+      if (pending.cancelKeys.has(code)) {
+        pending.resolve(null);
+        return;
+      }
+    }
+
+    if (pending.devices.has('key')) {
+      for (const code of input.getJustPressedKeys()) {
+        if (this.toModifier(code)) {
+          pending.heldModifier = code;
+        } else {
+          pending.resolve(this.withModifiers({ device: 'key', code }));
+          return;
+        }
+      }
+
+      if (pending.heldModifier !== null && input.isJustReleased(pending.heldModifier)) {
+        pending.resolve({ device: 'key', code: pending.heldModifier });
+        return;
+      }
+    }
+
+    if (pending.devices.has('mouse')) {
+      const button = input.getJustPressedMouseButtons()[0];
+      if (button !== undefined) {
+        pending.resolve(this.withModifiers({ device: 'mouse', button }));
+        return;
+      }
+    }
+
+    for (const pad of input.gamepads.getConnectedPads()) {
+      if (pending.devices.has('gamepad')) {
+        const button = input.gamepads.getJustPressedButtons(pad)[0];
+        if (button !== undefined) {
+          pending.resolve({ device: 'gamepad', button });
+          return;
+        }
+      }
+
+      if (pending.devices.has('gamepadAxis')) {
+        for (const axis of [GamepadAxis.LeftX, GamepadAxis.LeftY, GamepadAxis.RightX, GamepadAxis.RightY]) {
+          const value = input.gamepads.getAxis(axis, pad);
+          if (Math.abs(value) >= this.pressThreshold) {
+            pending.resolve({ device: 'gamepadAxis', axis, direction: value > 0 ? 1 : -1 });
+            return;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Read a binding's current value (0-1)
+   */
+  private readBinding(binding: InputBinding): number {
+    switch (binding.device) {
+      case 'key':
+        if (!this.input.isPressed(binding.code) || !this.modifiersHeld(binding.modifiers)) {
+          return 0;
+        }
+        return binding.modifiers?.length || !this.isChordActive(binding.code) ? 1 : 0;
+      case 'mouse':
+        return this.input.isMouseButtonPressed(binding.button) && this.modifiersHeld(binding.modifiers) ? 1 : 0;
+      case 'gamepad':
+        return this.readPads(binding.pad, pad => {
+          const gamepads = this.input.gamepads;
+          return Math.max(gamepads.getButtonValue(binding.button, pad), gamepads.isButtonPressed(binding.button, pad) ? 1 : 0);
+        });
+      case 'gamepadAxis':
+        return Math.max(0, this.readPads(binding.pad, pad => this.input.gamepads.getAxis(binding.axis, pad)) * binding.direction);
+    }
+  }
+
+  /**
+   * Read a value from one pad, or the largest magnitude over all pads
+   */
+  private readPads(pad: number | undefined, read: (pad: number) => number): number {
+    if (pad !== undefined) {
+      return read(pad);
+    }
+
+    let result = 0;
+    for (const index of this.input.gamepads.getConnectedPads()) {
+      const value = read(index);
+      if (Math.abs(value) > Math.abs(result)) {
+        result = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Read a stick from one pad, or the most deflected stick over all pads
+   */
+  private readStick(stick: 'left' | 'right', pad: number | undefined): { x: number; y: number } {
+    const pads = pad !== undefined ? [pad] : this.input.gamepads.getConnectedPads();
+    let result = { x: 0, y: 0 };
+
+    for (const index of pads) {
+      const vector = this.input.gamepads.getStick(stick, index);
+      if (Math.hypot(vector.x, vector.y) > Math.hypot(result.x, result.y)) {
+        result = vector;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Check if all modifiers of a chord are held
+   */
+  private modifiersHeld(modifiers: ModifierKey[] | undefined): boolean {
+    return (modifiers ?? []).every(
+      modifier => this.input.isPressed(`${modifier}Left`) || this.input.isPressed(`${modifier}Right`)
+    );
+  }
+
+  /**
+   * Check if any chord binding on a key is currently satisfied
+   */
+  private isChordActive(code: string): boolean {
+    for (const bindings of this.actions.values()) {
+      for (const binding of bindings) {
+        if (binding.device === 'key' && binding.code === code && binding.modifiers?.length &&
+            this.modifiersHeld(binding.modifiers)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Get the modifier a key code belongs to (e.g. 'ControlLeft' -> 'Control')
+   */
+  private toModifier(code: string): ModifierKey | null {
+    return MODIFIER_KEYS.find(modifier => code === `${modifier}Left` || code === `${modifier}Right`) ?? null;
+  }
+
+  /**
+   * Add the currently held modifiers to a captured key or mouse binding
+   */
+  private withModifiers<T extends InputBinding & { modifiers?: ModifierKey[] }>(binding: T): T {
+    const modifiers = MODIFIER_KEYS.filter(modifier => this.modifiersHeld([modifier]));
+    return modifiers.length > 0 ? { ...binding, modifiers } : binding;
+  }
+
+  /**
+   * Get an action's bindings, throwing if it is not defined
+   */
+  private requireAction(action: string): InputBinding[] {
+    const bindings = this.actions.get(action);
+    if (!bindings) {
+      throw new Error(`ActionMap: Action "${action}" is not defined`);
+    }
+    return bindings;
+  }
+}
@@ -0,0 +1,448 @@
+/**
+ * Gamepad Input
+ *
+ * Polls the Gamepad API once per frame and tracks button and axis state
+ * per pad, with frame-accurate just-pressed/just-released detection and
+ * deadzones for analog axes. Button and axis codes follow the W3C
+ * "standard" gamepad mapping; pads the browser does not report with that
+ * mapping are only available through getRawState().
+ */
+
+import type { EventBusLike } from '../events/EventBus';
+
+/**
+ * Gamepad buttons in the standard mapping (Xbox layout names)
+ */
+export enum GamepadButton {
+  /** Bottom face button (Xbox A, PlayStation Cross) */
+  A = 0,
+  /** Right face button (Xbox B, PlayStation Circle) */
+  B = 1,
+  /** Left face button (Xbox X, PlayStation Square) */
+  X = 2,
+  /** Top face button (Xbox Y, PlayStation Triangle) */
+  Y = 3,
+  LeftBumper = 4,
+  RightBumper = 5,
+  LeftTrigger = 6,
+  RightTrigger = 7,
+  /** Back / View / Share */
+  Select = 8,
+  /** Start / Menu / Options */
+  Start = 9,
+  LeftStick = 10,
+  RightStick = 11,
+  DPadUp = 12,
+  DPadDown = 13,
+  DPadLeft = 14,
+  DPadRight = 15,
+  /** Guide / PS button */
+  Home = 16
+}
+
+/**
+ * Gamepad axes in the standard mapping (Y axes point down)
+ */
+export enum GamepadAxis {
+  LeftX = 0,
+  LeftY = 1,
+  RightX = 2,
+  RightY = 3
+}
+
+/**
+ * Minimal view of a Gamepad, so tests can provide fake pads
+ */
+export interface GamepadLike {
+  index: number;
+  id: string;
+  connected: boolean;
+  mapping: string;
+  buttons: ArrayLike<{ pressed: boolean; value: number }>;
+  axes: ArrayLike<number>;
+}
+
+/**
+ * Source of gamepad snapshots (navigator.getGamepads by default)
+ */
+export type GamepadProvider = () => ArrayLike<GamepadLike | null>;
+
+/**
+ * Payload of gamepad connection events
+ */
+export interface GamepadConnectionEvent {
+  /** Pad index used by all GamepadInput queries */
+  index: number;
+  id: string;
+  mapping: string;
+}
+
+/**
+ * Events emitted by GamepadInput
+ */
+export interface GamepadEvents {
+  'gamepad:connected': GamepadConnectionEvent;
+  'gamepad:disconnected': GamepadConnectionEvent;
+}
+
+export interface GamepadInputOptions {
+  /** Replaces navigator.getGamepads, e.g. to feed fake pads in tests */
+  getGamepads?: GamepadProvider;
+  /** Bus receiving connect/disconnect events */
+  events?: EventBusLike<GamepadEvents>;
+  /** Deadzone for all axes (default: 0.15) */
+  deadzone?: number;
+}
+
+/**
+ * State of a pad as reported by the browser, without mapping or deadzones
+ */
+export interface RawGamepadState {
+  id: string;
+  /** 'standard', or '' for pads with an unknown layout */
+  mapping: string;
+  /** Indices of pressed buttons */
+  pressed: number[];
+  justPressed: number[];
+  justReleased: number[];
+  /** Analog value of each button (0-1) */
+  buttonValues: number[];
+  /** Value of each axis (-1 to 1) */
+  axes: number[];
+}
+
+interface PadState {
+  id: string;
+  mapping: string;
+  connected: boolean;
+  pressed: Set<number>;
+  justPressed: Set<number>;
+  justReleased: Set<number>;
+  values: number[];
+  axes: number[];
+}
+
+/**
+ * Read the browser's gamepads, if the Gamepad API is available
+ */
+const browserGamepads: GamepadProvider = () => {
+  if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') {
+    return [];
+  }
+  return navigator.getGamepads();
+};
+
+/**
+ * GamepadInput - Tracks the state of all connected gamepads
+ *
+ * Call poll() once per frame (InputManager.beginFrame does this). Pads are
+ * identified by their Gamepad API index; most queries default to pad 0.
+ * Axis values have the deadzone removed and are rescaled so they still
+ * reach ±1 at full tilt. Button and axis queries only answer for pads with
+ * the standard mapping; use getRawState() for other pads.
+ *
+ * When a pad disconnects, its held buttons are reported as just released
+ * and its axes read 0 for one more frame, so nothing stays stuck down.
+ */
+export class GamepadInput {
+  private pads = new Map<number, PadState>();
+  private readonly getGamepads: GamepadProvider;
+  private events: EventBusLike<GamepadEvents> | null;
+  private deadzone: number;
+  private axisDeadzones = new Map<GamepadAxis, number>();
+  private warnedUnavailable = false;
+
+  constructor(options: GamepadInputOptions = {}) {
+    this.getGamepads = options.getGamepads ?? browserGamepads;
+    this.events = options.events ?? null;
+    this.deadzone = options.deadzone ?? 0.15;
+  }
+
+  /**
+   * Set the bus receiving connect/disconnect events
+   */
+  setEventBus(events: EventBusLike<GamepadEvents> | null): void {
+    this.events = events;
+  }
+
+  /**
+   * Set the deadzone for all axes, or for one axis only
+   * @param deadzone - Values with a smaller magnitude read as 0 (0-1)
+   * @param axis - Axis to override (omit to change the default)
+   */
+  setDeadzone(deadzone: number, axis?: GamepadAxis): void {
+    if (axis === undefined) {
+      this.deadzone = deadzone;
+    } else {
+      this.axisDeadzones.set(axis, deadzone);
+    }
+  }
+
+  /**
+   * Get the deadzone of an axis
+   */
+  getDeadzone(axis?: GamepadAxis): number {
+    return (axis !== undefined ? this.axisDeadzones.get(axis) : undefined) ?? this.deadzone;
+  }
+
+  /**
+   * Read the current gamepad state and update per-frame button changes
+   */
+  poll(): void {
+    const seen = new Set<number>();
+    let gamepads: ArrayLike<GamepadLike | null>;
+    try {
+      gamepads = this.getGamepads();
+    } catch (error) {
+      // Throws in insecure contexts or when a permissions policy blocks it
+      if (!this.warnedUnavailable) {
+        this.warnedUnavailable = true;
+        console.warn('⚠️ GamepadInput: getGamepads() failed, gamepads are unavailable:', error);
+      }
+      gamepads = [];
+    }
+
+    for (let i = 0; i < gamepads.length; i++) {
+      const gamepad = gamepads[i];
+      if (!gamepad || !gamepad.connected) {
+        continue;
+      }
+
+      seen.add(gamepad.index);
+      let pad = this.pads.get(gamepad.index);
+      if (!pad || !pad.connected) {
+        pad = {
+          id: gamepad.id,
+          mapping: gamepad.mapping,
+          connected: true,
+          pressed: new Set(),
+          justPressed: new Set(),
+          justReleased: new Set(),
+          values: [],
+          axes: [],
+        };
+        this.pads.set(gamepad.index, pad);
+        this.events?.emit('gamepad:connected', { index: gamepad.index, id: pad.id, mapping: pad.mapping });
+      }
+
+      this.updatePad(pad, gamepad);
+    }
+
+    // Disconnected pads release everything for a frame before they are dropped
+    for (const [index, pad] of this.pads) {
+      if (seen.has(index)) {
+        continue;
+      }
+      if (pad.connected) {
+        this.releasePad(pad);
+        this.events?.emit('gamepad:disconnected', { index, id: pad.id, mapping: pad.mapping });
+      } else {
+        this.pads.delete(index);
+      }
+    }
+  }
+
+  /**
+   * Check if a button is currently pressed
+   */
+  isButtonPressed(button: GamepadButton, pad: number = 0): boolean {
+    return this.getStandardPad(pad)?.pressed.has(button) ?? false;
+  }
+
+  /**
+   * Check if a button was just pressed this frame
+   */
+  isButtonJustPressed(button: GamepadButton, pad: number = 0): boolean {
+    return this.getStandardPad(pad)?.justPressed.has(button) ?? false;
+  }
+
+  /**
+   * Check if a button was just released this frame
+   */
+  isButtonJustReleased(button: GamepadButton, pad: number = 0): boolean {
+    return this.getStandardPad(pad)?.justReleased.has(button) ?? false;
+  }
+
+  /**
+   * Get the buttons that were just pressed this frame
+   */
+  getJustPressedButtons(pad: number = 0): GamepadButton[] {
+    return Array.from(this.getStandardPad(pad)?.justPressed ?? []);
+  }
+
+  /**
+   * Get the analog value of a button (0-1, e.g. trigger travel)
+   */
+  getButtonValue(button: GamepadButton, pad: number = 0): number {
+    return this.getStandardPad(pad)?.values[button] ?? 0;
+  }
+
+  /**
+   * Get an axis value (-1 to 1) with its deadzone applied
+   */
+  getAxis(axis: GamepadAxis, pad: number = 0): number {
+    return this.applyDeadzone(this.getRawAxis(axis, pad), this.getDeadzone(axis));
+  }
+
+  /**
+   * Get the raw value of an axis, without deadzone
+   */
+  getRawAxis(axis: GamepadAxis, pad: number = 0): number {
+    return this.getStandardPad(pad)?.axes[axis] ?? 0;
+  }
+
+  /**
+   * Get a stick's position with a radial deadzone (length at most 1)
+   * @param stick - 'left' or 'right'
+   */
+  getStick(stick: 'left' | 'right', pad: number = 0): { x: number; y: number } {
+    const xAxis = stick === 'left' ? GamepadAxis.LeftX : GamepadAxis.RightX;
+    const yAxis = stick === 'left' ? GamepadAxis.LeftY : GamepadAxis.RightY;
+    const x = this.getRawAxis(xAxis, pad);
+    const y = this.getRawAxis(yAxis, pad);
+
+    const length = Math.hypot(x, y);
+    const scaled = this.applyDeadzone(Math.min(length, 1), this.getDeadzone(xAxis));
+    if (scaled === 0) {
+      return { x: 0, y: 0 };
+    }
+    return { x: (x / length) * scaled, y: (y / length) * scaled };
+  }
+
+  /**
+   * Check if a pad is connected
+   */
+  isConnected(pad: number = 0): boolean {
+    return this.pads.get(pad)?.connected ?? false;
+  }
+
+  /**
+   * Get the indices of all connected pads
+   */
+  getConnectedPads(): number[] {
+    const indices: number[] = [];
+    for (const [index, pad] of this.pads) {
+      if (pad.connected) {
+        indices.push(index);
+      }
+    }
+    return indices;
+  }
+
+  /**
+   * Get the id string reported by a pad (e.g. its product name)
+   */
+  getGamepadId(pad: number = 0): string | undefined {
+    return this.pads.get(pad)?.id;
+  }
+
+  /**
+   * Get the mapping reported by a pad ('standard', or '' for unknown layouts)
+   */
+  getMapping(pad: number = 0): string | undefined {
+    return this.pads.get(pad)?.mapping;
+  }
+
+  /**
+   * Check if a pad uses the standard mapping, so button and axis queries work
+   */
+  isStandardMapping(pad: number = 0): boolean {
+    return this.getStandardPad(pad) !== undefined;
+  }
+
+  /**
+   * Get a pad's buttons and axes by the indices the browser reports, for
+   * pads of any mapping
+   */
+  getRawState(pad: number = 0): RawGamepadState | undefined {
+    const state = this.pads.get(pad);
+    if (!state) {
+      return undefined;
+    }
+
+    return {
+      id: state.id,
+      mapping: state.mapping,
+      pressed: Array.from(state.pressed),
+      justPressed: Array.from(state.justPressed),
+      justReleased: Array.from(state.justReleased),
+      buttonValues: [...state.values],
+      axes: [...state.axes],
+    };
+  }
+
+  /**
+   * Check if any button is pressed on any pad (of any mapping)
+   */
+  isAnyButtonPressed(): boolean {
+    for (const pad of this.pads.values()) {
+      if (pad.pressed.size > 0) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Forget all pads (they are reported as connected again on the next poll)
+   */
+  clear(): void {
+    this.pads.clear();
+  }
+
+  /**
+   * Get a pad's state if it uses the standard mapping
+   */
+  private getStandardPad(pad: number): PadState | undefined {
+    const state = this.pads.get(pad);
+    return state?.mapping === 'standard' ? state : undefined;
+  }
+
+  /**
+   * Copy a gamepad snapshot into the pad state
+   */
+  private updatePad(pad: PadState, gamepad: GamepadLike): void {
+    pad.justPressed.clear();
+    pad.justReleased.clear();
+
+    for (let button = 0; button < gamepad.buttons.length; button++) {
+      const state = gamepad.buttons[button]!;
+      pad.values[button] = state.value;
+
+      if (state.pressed && !pad.pressed.has(button)) {
+        pad.pressed.add(button);
+        pad.justPressed.add(button);
+      } else if (!state.pressed && pad.pressed.has(button)) {
+        pad.pressed.delete(button);
+        pad.justReleased.add(button);
+      }
+    }
+
+    for (let axis = 0; axis < gamepad.axes.length; axis++) {
+      pad.axes[axis] = gamepad.axes[axis]!;
+    }
+  }
+
+  /**
+   * Mark a pad as disconnected, releasing its buttons and zeroing its axes
+   */
+  private releasePad(pad: PadState): void {
+    pad.connected = false;
+    pad.justPressed.clear();
+    pad.justReleased = pad.pressed;
+    pad.pressed = new Set();
+    pad.values.fill(0);
+    pad.axes.fill(0);
+  }
+
+  /**
+   * Zero values inside the deadzone and rescale the rest to the full range
+   */
+  private applyDeadzone(value: number, deadzone: number): number {
+    const magnitude = Math.abs(value);
+    if (magnitude <= deadzone) {
+      return 0;
+    }
+    return Math.sign(value) * Math.min((magnitude - deadzone) / (1 - deadzone), 1);
+  }
+}
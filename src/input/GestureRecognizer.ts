@@ -0,0 +1,524 @@
+/**
+ * Gesture Recognizer
+ *
+ * Turns the InputManager's per-frame pointer state into gestures: drags
+ * (after a distance threshold), double-clicks/taps, long presses, two-finger
+ * pinch/rotate, and wheel scrolling. Gestures can be queried for the current
+ * frame or received as events. All positions are in stage coordinates.
+ */
+
+import type { EventBusLike } from '../events/EventBus';
+import { toButtonMask, type InputManager, type PointerState } from './InputManager';
+
+/**
+ * Payload of drag events
+ */
+export interface DragGestureEvent {
+  pointerId: number;
+  /** 'mouse', 'touch' or 'pen' */
+  pointerType: string;
+  /** Pressed buttons when the drag began (PointerEvent.buttons bitmask) */
+  buttons: number;
+  /** Position where the pointer was pressed */
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  /** Movement since the previous drag event */
+  deltaX: number;
+  deltaY: number;
+}
+
+/**
+ * Payload of double-click and long-press events
+ */
+export interface TapGestureEvent {
+  pointerId: number;
+  pointerType: string;
+  /** Pressed buttons of the (last) press */
+  buttons: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Payload of pinch events
+ */
+export interface PinchGestureEvent {
+  /** The two touch pointers forming the pinch */
+  pointerIds: [number, number];
+  /** Midpoint between the two touches */
+  centerX: number;
+  centerY: number;
+  /** Movement of the midpoint since the previous pinch event (two-finger pan) */
+  deltaX: number;
+  deltaY: number;
+  /** Finger distance relative to the start of the pinch */
+  scale: number;
+  /** Rotation in radians since the start of the pinch (clockwise positive) */
+  rotation: number;
+  /** Scale change factor since the previous pinch event */
+  deltaScale: number;
+  /** Rotation in radians since the previous pinch event */
+  deltaRotation: number;
+}
+
+/**
+ * Payload of wheel events
+ */
+export interface WheelGestureEvent {
+  /** Scroll distance this frame in stage pixels */
+  deltaX: number;
+  deltaY: number;
+  /** Mouse position */
+  x: number;
+  y: number;
+}
+
+/**
+ * Events emitted by GestureRecognizer
+ */
+export interface GestureEvents {
+  'gesture:dragStart': DragGestureEvent;
+  'gesture:dragMove': DragGestureEvent;
+  'gesture:dragEnd': DragGestureEvent;
+  'gesture:doubleClick': TapGestureEvent;
+  'gesture:longPress': TapGestureEvent;
+  'gesture:pinchStart': PinchGestureEvent;
+  'gesture:pinch': PinchGestureEvent;
+  'gesture:pinchEnd': PinchGestureEvent;
+  'pointer:wheel': WheelGestureEvent;
+}
+
+export interface GestureRecognizerOptions {
+  /** Bus receiving gesture events */
+  events?: EventBusLike<GestureEvents>;
+  /** Distance in stage pixels a pointer must move before it drags (default: 8) */
+  dragThreshold?: number;
+  /** Maximum time between the clicks of a double-click in ms (default: 300) */
+  doubleClickTime?: number;
+  /** Maximum distance between the clicks of a double-click (default: 8) */
+  doubleClickDistance?: number;
+  /** Time a pointer must be held still for a long press in ms (default: 500) */
+  longPressTime?: number;
+  /** Clock in milliseconds (default: the frame time passed to InputManager.beginFrame) */
+  now?: () => number;
+}
+
+interface Press {
+  pointerId: number;
+  pointerType: string;
+  buttons: number;
+  startX: number;
+  startY: number;
+  startTime: number;
+  x: number;
+  y: number;
+  dragging: boolean;
+  longPressed: boolean;
+  /** Taken over by a pinch: no clicks, drags or long presses */
+  cancelled: boolean;
+}
+
+interface Tap {
+  pointerType: string;
+  buttons: number;
+  x: number;
+  y: number;
+  time: number;
+}
+
+/**
+ * GestureRecognizer - Detects gestures from pointer input
+ *
+ * Updated by InputManager.beginFrame() and available as `input.gestures`.
+ * A press that turns into a drag or long press is not counted as a click, and
+ * touches that form a pinch produce no drags, clicks or long presses.
+ *
+ * @example
+ * ```typescript
+ * engine.events.on('gesture:pinch', ({ deltaScale }) => camera.zoom *= deltaScale);
+ *
+ * const drag = engine.input.gestures.getDrag();
+ * if (drag) {
+ *   placeTowerPreview(drag.x, drag.y);
+ * }
+ * ```
+ */
+export class GestureRecognizer {
+  private readonly input: InputManager;
+  private events: EventBusLike<GestureEvents> | null;
+  private readonly now: () => number;
+  public dragThreshold: number;
+  public doubleClickTime: number;
+  public doubleClickDistance: number;
+  public longPressTime: number;
+
+  private presses = new Map<number, Press>();
+  private lastTap: Tap | null = null;
+  private pinch: PinchGestureEvent | null = null;
+  private pinchStartDistance = 1;
+  /** Unwrapped finger angle at the previous pinch update */
+  private pinchAngle = 0;
+
+  // Gestures recognized this frame
+  private drags: DragGestureEvent[] = [];
+  private endedDrags: DragGestureEvent[] = [];
+  private doubleClick: TapGestureEvent | null = null;
+  private longPress: TapGestureEvent | null = null;
+
+  constructor(input: InputManager, options: GestureRecognizerOptions = {}) {
+    this.input = input;
+    this.events = options.events ?? null;
+    this.now = options.now ?? (() => input.getFrameTime());
+    this.dragThreshold = options.dragThreshold ?? 8;
+    this.doubleClickTime = options.doubleClickTime ?? 300;
+    this.doubleClickDistance = options.doubleClickDistance ?? 8;
+    this.longPressTime = options.longPressTime ?? 500;
+  }
+
+  /**
+   * Set the bus receiving gesture events
+   */
+  setEventBus(events: EventBusLike<GestureEvents> | null): void {
+    this.events = events;
+  }
+
+  /**
+   * Recognize gestures from the current frame's pointer state (called by InputManager.beginFrame)
+   */
+  update(): void {
+    const now = this.now();
+    this.drags = [];
+    this.endedDrags = [];
+    this.doubleClick = null;
+    this.longPress = null;
+
+    for (const pointer of this.input.getJustPressedPointers()) {
+      this.presses.set(pointer.id, {
+        pointerId: pointer.id,
+        pointerType: pointer.type,
+        buttons: this.getPressButtons(pointer),
+        startX: pointer.x,
+        startY: pointer.y,
+        startTime: now,
+        x: pointer.x,
+        y: pointer.y,
+        dragging: false,
+        longPressed: false,
+        cancelled: false,
+      });
+    }
+
+    this.updatePinch();
+
+    for (const pointer of this.input.getJustReleasedPointers()) {
+      const press = this.presses.get(pointer.id);
+      if (press) {
+        this.presses.delete(pointer.id);
+        this.release(press, pointer.x, pointer.y, now);
+      }
+    }
+
+    for (const press of this.presses.values()) {
+      const pointer = this.input.getPointer(press.pointerId);
+      if (!pointer || !pointer.down) {
+        // Lost without a release (e.g. input was cleared)
+        this.presses.delete(press.pointerId);
+        if (press.dragging) {
+          this.endDrag(press);
+        }
+        continue;
+      }
+      this.move(press, pointer.x, pointer.y, now);
+    }
+
+    const wheel = this.input.getWheelDelta();
+    if (wheel.x !== 0 || wheel.y !== 0) {
+      const { x, y } = this.input.getMousePosition();
+      this.events?.emit('pointer:wheel', { deltaX: wheel.x, deltaY: wheel.y, x, y });
+    }
+  }
+
+  /**
+   * Check if a pointer (or any pointer) is dragging
+   */
+  isDragging(pointerId?: number): boolean {
+    return this.getDrag(pointerId) !== null;
+  }
+
+  /**
+   * Get the state of an active drag, by pointer or the first one
+   */
+  getDrag(pointerId?: number): DragGestureEvent | null {
+    for (const press of this.presses.values()) {
+      if (press.dragging && (pointerId === undefined || press.pointerId === pointerId)) {
+        return this.toDragEvent(press, 0, 0);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get all active drags (e.g. several fingers)
+   */
+  getDrags(): DragGestureEvent[] {
+    return Array.from(this.presses.values())
+      .filter(press => press.dragging)
+      .map(press => this.toDragEvent(press, 0, 0));
+  }
+
+  /**
+   * Get the drags that started or moved this frame
+   */
+  getDragUpdates(): DragGestureEvent[] {
+    return [...this.drags];
+  }
+
+  /**
+   * Get the drags that ended this frame
+   */
+  getEndedDrags(): DragGestureEvent[] {
+    return [...this.endedDrags];
+  }
+
+  /**
+   * Get this frame's double-click or double-tap, if any
+   */
+  getDoubleClick(): TapGestureEvent | null {
+    return this.doubleClick;
+  }
+
+  /**
+   * Get the long press recognized this frame, if any
+   */
+  getLongPress(): TapGestureEvent | null {
+    return this.longPress;
+  }
+
+  /**
+   * Check if two fingers are pinching
+   */
+  isPinching(): boolean {
+    return this.pinch !== null;
+  }
+
+  /**
+   * Get the active pinch, if any
+   */
+  getPinch(): PinchGestureEvent | null {
+    return this.pinch ? { ...this.pinch } : null;
+  }
+
+  /**
+   * Forget all gesture state (in-progress gestures end without events)
+   */
+  clear(): void {
+    this.presses.clear();
+    this.lastTap = null;
+    this.pinch = null;
+    this.drags = [];
+    this.endedDrags = [];
+    this.doubleClick = null;
+    this.longPress = null;
+  }
+
+  /**
+   * Track a held pointer: start and continue drags, detect long presses
+   */
+  private move(press: Press, x: number, y: number, now: number): void {
+    const deltaX = x - press.x;
+    const deltaY = y - press.y;
+    press.x = x;
+    press.y = y;
+
+    if (press.cancelled) {
+      return;
+    }
+
+    if (!press.dragging && !press.longPressed &&
+        Math.hypot(x - press.startX, y - press.startY) >= this.dragThreshold) {
+      press.dragging = true;
+      const event = this.toDragEvent(press, x - press.startX, y - press.startY);
+      this.drags.push(event);
+      this.events?.emit('gesture:dragStart', event);
+      return;
+    }
+
+    if (press.dragging && (deltaX !== 0 || deltaY !== 0)) {
+      const event = this.toDragEvent(press, deltaX, deltaY);
+      this.drags.push(event);
+      this.events?.emit('gesture:dragMove', event);
+      return;
+    }
+
+    if (!press.dragging && !press.longPressed && now - press.startTime >= this.longPressTime) {
+      press.longPressed = true;
+      this.longPress = this.toTapEvent(press);
+      this.events?.emit('gesture:longPress', this.longPress);
+    }
+  }
+
+  /**
+   * Finish a press: end its drag, or count it as a click
+   */
+  private release(press: Press, x: number, y: number, now: number): void {
+    if (press.dragging) {
+      this.move(press, x, y, now);
+      this.endDrag(press);
+      return;
+    }
+
+    press.x = x;
+    press.y = y;
+    if (press.cancelled || press.longPressed) {
+      return;
+    }
+
+    const last = this.lastTap;
+    if (last && last.pointerType === press.pointerType && last.buttons === press.buttons &&
+        now - last.time <= this.doubleClickTime &&
+        Math.hypot(x - last.x, y - last.y) <= this.doubleClickDistance) {
+      this.lastTap = null;
+      this.doubleClick = this.toTapEvent(press);
+      this.events?.emit('gesture:doubleClick', this.doubleClick);
+    } else {
+      this.lastTap = { pointerType: press.pointerType, buttons: press.buttons, x, y, time: now };
+    }
+  }
+
+  /**
+   * Emit the end of a drag
+   */
+  private endDrag(press: Press): void {
+    press.dragging = false;
+    const event = this.toDragEvent(press, 0, 0);
+    this.endedDrags.push(event);
+    this.events?.emit('gesture:dragEnd', event);
+  }
+
+  /**
+   * Start, update or end the pinch from the first two touches
+   */
+  private updatePinch(): void {
+    const touches = this.input.getPointers()
+      .filter(pointer => pointer.type === 'touch' && pointer.down)
+      .sort((a, b) => a.id - b.id);
+
+    const pinch = this.pinch;
+    if (pinch) {
+      const [first, second] = pinch.pointerIds;
+      const a = touches.find(pointer => pointer.id === first);
+      const b = touches.find(pointer => pointer.id === second);
+
+      if (!a || !b) {
+        this.pinch = null;
+        this.events?.emit('gesture:pinchEnd', { ...pinch, deltaX: 0, deltaY: 0, deltaScale: 1, deltaRotation: 0 });
+        return;
+      }
+
+      const centerX = (a.x + b.x) / 2;
+      const centerY = (a.y + b.y) / 2;
+      const scale = Math.hypot(b.x - a.x, b.y - a.y) / this.pinchStartDistance;
+      // Unwrap the angle so rotations past ±180° keep accumulating
+      let deltaRotation = Math.atan2(b.y - a.y, b.x - a.x) - this.pinchAngle;
+      deltaRotation = Math.atan2(Math.sin(deltaRotation), Math.cos(deltaRotation));
+
+      if (centerX === pinch.centerX && centerY === pinch.centerY && scale === pinch.scale && deltaRotation === 0) {
+        return;
+      }
+
+      this.pinchAngle += deltaRotation;
+      this.pinch = {
+        pointerIds: pinch.pointerIds,
+        centerX,
+        centerY,
+        deltaX: centerX - pinch.centerX,
+        deltaY: centerY - pinch.centerY,
+        scale,
+        rotation: pinch.rotation + deltaRotation,
+        deltaScale: scale / pinch.scale,
+        deltaRotation,
+      };
+      this.events?.emit('gesture:pinch', { ...this.pinch });
+      return;
+    }
+
+    const [a, b] = touches;
+    if (!a || !b) {
+      return;
+    }
+
+    const distance = Math.hypot(b.x - a.x, b.y - a.y);
+    if (distance === 0) {
+      return;
+    }
+
+    // The fingers now belong to the pinch
+    for (const id of [a.id, b.id]) {
+      const press = this.presses.get(id);
+      if (press) {
+        if (press.dragging) {
+          this.endDrag(press);
+        }
+        press.cancelled = true;
+      }
+    }
+
+    this.pinchStartDistance = distance;
+    this.pinchAngle = Math.atan2(b.y - a.y, b.x - a.x);
+    this.pinch = {
+      pointerIds: [a.id, b.id],
+      centerX: (a.x + b.x) / 2,
+      centerY: (a.y + b.y) / 2,
+      deltaX: 0,
+      deltaY: 0,
+      scale: 1,
+      rotation: 0,
+      deltaScale: 1,
+      deltaRotation: 0,
+    };
+    this.events?.emit('gesture:pinchStart', { ...this.pinch });
+  }
+
+  /**
+   * Get the buttons a pointer was pressed with
+   */
+  private getPressButtons(pointer: PointerState): number {
+    if (pointer.buttons !== 0) {
+      return pointer.buttons;
+    }
+    // Pressed and released within the frame
+    return pointer.type === 'mouse' ? toButtonMask(this.input.getJustPressedMouseButtons()) : 1;
+  }
+
+  /**
+   * Build a drag event payload from a press
+   */
+  private toDragEvent(press: Press, deltaX: number, deltaY: number): DragGestureEvent {
+    return {
+      pointerId: press.pointerId,
+      pointerType: press.pointerType,
+      buttons: press.buttons,
+      startX: press.startX,
+      startY: press.startY,
+      x: press.x,
+      y: press.y,
+      deltaX,
+      deltaY,
+    };
+  }
+
+  /**
+   * Build a tap event payload from a press
+   */
+  private toTapEvent(press: Press): TapGestureEvent {
+    return {
+      pointerId: press.pointerId,
+      pointerType: press.pointerType,
+      buttons: press.buttons,
+      x: press.x,
+      y: press.y,
+    };
+  }
+}
@@ -1,10 +1,15 @@
 /**
  * Input Management System
  * 
- * Handles keyboard and mouse input state tracking with frame-accurate detection
- * of key presses, releases, mouse position, and mouse button states.
+ * Handles keyboard and pointer (mouse, touch, pen) input state tracking with
+ * frame-accurate detection of key presses, releases, pointer positions, and
+ * mouse button states.
  */
 
+import type { EventBusLike } from '../events/EventBus';
+import { GamepadInput, type GamepadEvents, type GamepadInputOptions } from './GamepadInput';
+import { GestureRecognizer, type GestureEvents, type GestureRecognizerOptions } from './GestureRecognizer';
+
 /**
  * Mouse button codes
  */
@@ -16,6 +21,99 @@ export enum MouseButton {
   Forward = 4
 }
 
+/**
+ * Buttons bits of PointerEvent.buttons, indexed by MouseButton
+ */
+const BUTTON_BITS: Record<MouseButton, number> = {
+  [MouseButton.Left]: 1,
+  [MouseButton.Right]: 2,
+  [MouseButton.Middle]: 4,
+  [MouseButton.Back]: 8,
+  [MouseButton.Forward]: 16,
+};
+
+/**
+ * Convert mouse buttons to a PointerEvent.buttons bitmask
+ */
+export function toButtonMask(buttons: Iterable<MouseButton>): number {
+  let mask = 0;
+  for (const button of buttons) {
+    mask |= BUTTON_BITS[button];
+  }
+  return mask;
+}
+
+/**
+ * Pointer id of the mouse pointer driven by injected and replayed changes
+ * (negative, so it never collides with a PointerEvent.pointerId)
+ */
+export const SYNTHETIC_POINTER_ID = -1;
+
+/**
+ * State of a single pointer (mouse, finger or pen)
+ */
+export interface PointerState {
+  /** PointerEvent.pointerId, stable while the pointer is tracked */
+  id: number;
+  /** 'mouse', 'touch' or 'pen' */
+  type: string;
+  /** Position in stage coordinates */
+  x: number;
+  y: number;
+  /** Pressure from 0 to 1 (0.5 for pressed devices without pressure support) */
+  pressure: number;
+  /** Currently pressed buttons as a PointerEvent.buttons bitmask */
+  buttons: number;
+  /** Whether this is the primary pointer of its type (drives the mouse state) */
+  isPrimary: boolean;
+  /** Whether the pointer is pressed (touching, pen contact or any mouse button down) */
+  down: boolean;
+}
+
+/**
+ * A single change of keyboard or mouse state, as recorded and replayed
+ * - ['+', code] / ['-', code]: key pressed / released
+ * - ['m', x, y]: mouse moved (stage coordinates)
+ * - ['b', buttons]: pressed mouse buttons changed (PointerEvent.buttons bitmask)
+ * - ['w', deltaX, deltaY]: mouse wheel scrolled (stage pixels)
+ */
+export type InputChange =
+  | ['+', string]
+  | ['-', string]
+  | ['m', number, number]
+  | ['b', number]
+  | ['w', number, number];
+
+/**
+ * Supplies input changes instead of the DOM (see InputManager.setSource)
+ */
+export interface InputSource {
+  /**
+   * Changes for the frame that is starting, or null when the source is exhausted
+   */
+  nextFrame(): InputChange[] | null;
+  /**
+   * Changes describing the state to start from (applied without just-pressed edges)
+   */
+  getInitialState?(): InputChange[];
+}
+
+/**
+ * Events emitted by InputManager (gamepad connections and gestures)
+ */
+export type InputEvents = GamepadEvents & GestureEvents;
+
+/**
+ * InputManager options
+ * Gamepad options (injectable getGamepads, deadzone) are passed through to
+ * GamepadInput, and gesture thresholds to GestureRecognizer.
+ */
+export interface InputManagerOptions
+  extends Omit<GamepadInputOptions, 'events'>, Omit<GestureRecognizerOptions, 'events'> {
+  /** Bus receiving gamepad connection and gesture events */
+  events?: EventBusLike<InputEvents>;
+}
+
 /**
  * InputManager interface
  */
@@ -27,12 +125,15 @@ export interface InputManagerLike {
   isMouseButtonJustPressed(button: MouseButton): boolean;
   isMouseButtonJustReleased(button: MouseButton): boolean;
   getMousePosition(): { x: number; y: number };
-  beginFrame(): void;
+  /** Latest native event of the primary pointer, if any */
+  getPrimaryPointerEvent?(): PointerEvent | null;
+  /** @param time - Frame time in milliseconds, if the caller keeps one */
+  beginFrame(time?: number): void;
   endFrame(): void;
 }
 
 /**
- * InputManager - Tracks keyboard and mouse input state
+ * InputManager - Tracks keyboard and pointer input state
  * 
  * Usage:
  * - Call listen() with a canvas element to start listening
@@ -40,8 +141,31 @@ export interface InputManagerLike {
  * - Call endFrame() at the end of each frame
  * - Query input state using isPressed, isJustPressed, isJustReleased
  * - Query mouse state using mouse-related methods
+ * - Query individual pointers (e.g. each finger) using pointer-related methods
+ * 
+ * Gamepads are polled in beginFrame() and queried through `gamepads`.
+ * Drags, double-clicks, long presses, pinches and wheel scrolling are
+ * recognized in beginFrame() and available through `gestures`.
+ * 
+ * Pointer events are used for all devices. The primary pointer drives the
+ * mouse state, so a touch or pen press acts like the left mouse button and
+ * mouse-only code keeps working on touch screens. Mouse, touch and pen each
+ * have a primary pointer; while one of them is pressed it owns the mouse
+ * state, and the others (e.g. a hovering mouse during a touch drag) leave
+ * the mouse state alone until it is released.
+ * 
+ * Keyboard and mouse state changes pass through a small change vocabulary
+ * (InputChange) that can be observed with onChange(), injected with inject(),
+ * or supplied by an InputSource (e.g. an InputReplay) in place of the DOM.
+ * Injected and supplied mouse changes move and press a synthetic mouse
+ * pointer (SYNTHETIC_POINTER_ID), so pointer queries and gestures see them.
  */
 export class InputManager implements InputManagerLike {
+  /** Gamepad state, polled in beginFrame() */
+  public readonly gamepads: GamepadInput;
+  /** Gesture state, updated in beginFrame() */
+  public readonly gestures: GestureRecognizer;
+  
   // Keyboard state
   private pressed = new Set<string>();
   private pressedBuffer = new Set<string>();
@@ -52,13 +176,32 @@ export class InputManager implements InputManagerLike {
   // Mouse state
   private mouseX = 0;
   private mouseY = 0;
+  private mouseButtonMask = 0;
+  private wheelX = 0;
+  private wheelY = 0;
+  private wheelBufferX = 0;
+  private wheelBufferY = 0;
   private mouseButtons = new Set<number>();
   private mouseButtonsBuffer = new Set<number>();
   private mouseButtonsReleasedBuffer = new Set<number>();
   private mouseButtonsJustPressed = new Set<number>();
   private mouseButtonsJustReleased = new Set<number>();
   
+  // Pointer state
+  private pointers = new Map<number, PointerState>();
+  private pointersPressedBuffer = new Set<number>();
+  private pointersReleasedBuffer = new Map<number, PointerState>();
+  private pointersJustPressed = new Set<number>();
+  private pointersJustReleased = new Map<number, PointerState>();
+  private primaryPointerEvent: PointerEvent | null = null;
+  private mouseOwnerId: number | null = null;
+  private frameTime = 0;
+  
+  private frameListeners = new Set<() => void>();
+  private changeListeners = new Set<(change: InputChange) => void>();
+  private source: InputSource | null = null;
   private listening = false;
+  private previousTouchAction = '';
   private canvas: HTMLCanvasElement | null = null;
   
   // Scaling properties for coordinate transformation
@@ -67,6 +210,11 @@ export class InputManager implements InputManagerLike {
   private offsetX: number = 0;
   private offsetY: number = 0;
 
+  constructor(options: InputManagerOptions = {}) {
+    this.gamepads = new GamepadInput(options);
+    this.gestures = new GestureRecognizer(this, options);
+  }
+
   /**
    * Start listening for input events
    * @param element - Window, Document for keyboard, or HTMLCanvasElement for keyboard + mouse
@@ -84,19 +232,32 @@ export class InputManager implements InputManagerLike {
       passive: true,
     });
     
-    // Mouse events (only for canvas elements)
+    // Pointer events (only for canvas elements)
     if (element instanceof HTMLCanvasElement) {
       this.canvas = element;
       
-      element.addEventListener("mousemove", this.handleMouseMove as EventListener, {
+      // Keep the browser from panning/zooming so touches reach the game
+      this.previousTouchAction = element.style.touchAction;
+      element.style.touchAction = "none";
+      
+      element.addEventListener("pointermove", this.handlePointerMove as EventListener, {
+        passive: true,
+      });
+      element.addEventListener("pointerdown", this.handlePointerDown as EventListener, {
+        passive: true,
+      });
+      element.addEventListener("pointerup", this.handlePointerUp as EventListener, {
         passive: true,
       });
-      element.addEventListener("mousedown", this.handleMouseDown as EventListener, {
+      element.addEventListener("pointercancel", this.handlePointerUp as EventListener, {
         passive: true,
       });
-      element.addEventListener("mouseup", this.handleMouseUp as EventListener, {
+      element.addEventListener("pointerleave", this.handlePointerLeave as EventListener, {
         passive: true,
       });
+      element.addEventListener("wheel", this.handleWheel as EventListener, {
+        passive: false,
+      });
       element.addEventListener("contextmenu", this.handleContextMenu as EventListener);
     }
     
@@ -116,12 +277,16 @@ export class InputManager implements InputManagerLike {
     element.removeEventListener("keydown", this.handleKeyDown as EventListener);
     element.removeEventListener("keyup", this.handleKeyUp as EventListener);
     
-    // Mouse events
+    // Pointer events
     if (element instanceof HTMLCanvasElement) {
-      element.removeEventListener("mousemove", this.handleMouseMove as EventListener);
-      element.removeEventListener("mousedown", this.handleMouseDown as EventListener);
-      element.removeEventListener("mouseup", this.handleMouseUp as EventListener);
+      element.removeEventListener("pointermove", this.handlePointerMove as EventListener);
+      element.removeEventListener("pointerdown", this.handlePointerDown as EventListener);
+      element.removeEventListener("pointerup", this.handlePointerUp as EventListener);
+      element.removeEventListener("pointercancel", this.handlePointerUp as EventListener);
+      element.removeEventListener("pointerleave", this.handlePointerLeave as EventListener);
+      element.removeEventListener("wheel", this.handleWheel as EventListener);
       element.removeEventListener("contextmenu", this.handleContextMenu as EventListener);
+      element.style.touchAction = this.previousTouchAction;
       this.canvas = null;
     }
     
@@ -130,8 +295,24 @@ export class InputManager implements InputManagerLike {
 
   /**
    * Call at the beginning of each frame to update input state
+   * @param time - Frame time in milliseconds (default: performance.now()).
+   *   Engines pass their frame timestamp, so gestures follow simulated time.
    */
-  beginFrame(): void {
+  beginFrame(time?: number): void {
+    this.frameTime = time ?? performance.now();
+
+    // Replayed input arrives as if its events happened since the last frame
+    if (this.source) {
+      const changes = this.source.nextFrame();
+      if (changes === null) {
+        this.setSource(null);
+      } else {
+        for (const change of changes) {
+          this.applyExternalChange(change);
+        }
+      }
+    }
+
     // Keyboard
     this.justPressed = new Set(this.pressedBuffer);
     this.justReleased = new Set(this.releasedBuffer);
@@ -143,6 +324,106 @@ export class InputManager implements InputManagerLike {
     this.mouseButtonsJustReleased = new Set(this.mouseButtonsReleasedBuffer);
     this.mouseButtonsBuffer.clear();
     this.mouseButtonsReleasedBuffer.clear();
+    
+    // Pointers
+    this.pointersJustPressed = new Set(this.pointersPressedBuffer);
+    this.pointersJustReleased = new Map(this.pointersReleasedBuffer);
+    this.pointersPressedBuffer.clear();
+    this.pointersReleasedBuffer.clear();
+    
+    // Wheel
+    this.wheelX = this.wheelBufferX;
+    this.wheelY = this.wheelBufferY;
+    this.wheelBufferX = 0;
+    this.wheelBufferY = 0;
+    
+    // Gamepads and gestures
+    this.gamepads.poll();
+    this.gestures.update();
+
+    for (const listener of [...this.frameListeners]) {
+      listener();
+    }
+  }
+
+  /**
+   * Time of the current frame in milliseconds, as passed to beginFrame()
+   */
+  getFrameTime(): number {
+    return this.frameTime;
+  }
+
+  /**
+   * Subscribe to the end of beginFrame(), once the new frame's input state is ready
+   * Returns an unsubscribe function
+   */
+  onBeginFrame(listener: () => void): () => void {
+    this.frameListeners.add(listener);
+    return () => {
+      this.frameListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to keyboard and mouse state changes (e.g. to record them)
+   * Returns an unsubscribe function
+   */
+  onChange(listener: (change: InputChange) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Apply a change as if it came from the DOM (visible from the next beginFrame)
+   */
+  inject(change: InputChange): void {
+    this.applyExternalChange(change);
+  }
+
+  /**
+   * Replace DOM input with a source read at the start of each beginFrame()
+   * Input state is cleared when the source changes, then set to the source's
+   * initial state. A source that returns null is removed, and live input resumes.
+   */
+  setSource(source: InputSource | null): void {
+    if (source === this.source) {
+      return;
+    }
+    this.source = source;
+    this.clear();
+
+    for (const change of source?.getInitialState?.() ?? []) {
+      this.applyExternalChange(change);
+    }
+    this.pressedBuffer.clear();
+    this.releasedBuffer.clear();
+    this.mouseButtonsBuffer.clear();
+    this.mouseButtonsReleasedBuffer.clear();
+    this.pointersPressedBuffer.clear();
+    this.pointersReleasedBuffer.clear();
+  }
+
+  /**
+   * Get the source set with setSource(), if any
+   */
+  getSource(): InputSource | null {
+    return this.source;
+  }
+
+  /**
+   * Get the changes that rebuild the current keyboard and mouse state from a cleared manager
+   */
+  getStateChanges(): InputChange[] {
+    const changes: InputChange[] = Array.from(this.pressed, (code): InputChange => ['+', code]);
+    if (this.mouseX !== 0 || this.mouseY !== 0) {
+      changes.push(['m', this.mouseX, this.mouseY]);
+    }
+    if (this.mouseButtonMask !== 0) {
+      changes.push(['b', this.mouseButtonMask]);
+    }
+    return changes;
   }
 
   /**
@@ -190,6 +471,27 @@ export class InputManager implements InputManagerLike {
     return Array.from(this.pressed);
   }
 
+  /**
+   * Get the keys that were just pressed this frame
+   */
+  getJustPressedKeys(): string[] {
+    return Array.from(this.justPressed);
+  }
+
+  /**
+   * Get the keys that were just released this frame
+   */
+  getJustReleasedKeys(): string[] {
+    return Array.from(this.justReleased);
+  }
+
+  /**
+   * Get the mouse buttons that were just pressed this frame
+   */
+  getJustPressedMouseButtons(): MouseButton[] {
+    return Array.from(this.mouseButtonsJustPressed);
+  }
+
   /**
    * Check if a mouse button is currently pressed
    * @param button - Mouse button (0 = left, 1 = middle, 2 = right)
@@ -222,6 +524,98 @@ export class InputManager implements InputManagerLike {
     return { x: this.mouseX, y: this.mouseY };
   }
 
+  /**
+   * Get the wheel scroll distance accumulated since the last frame, in stage pixels
+   */
+  getWheelDelta(): { x: number; y: number } {
+    return { x: this.wheelX, y: this.wheelY };
+  }
+
+  /**
+   * Latest native event of the primary pointer, if any
+   */
+  getPrimaryPointerEvent(): PointerEvent | null {
+    return this.primaryPointerEvent;
+  }
+
+  /**
+   * Get all tracked pointers: pressed pointers plus hovering mice and pens
+   */
+  getPointers(): PointerState[] {
+    return Array.from(this.pointers.values(), pointer => ({ ...pointer }));
+  }
+
+  /**
+   * Get a pointer by id
+   * Pointers released this frame can still be looked up until the next frame.
+   */
+  getPointer(id: number): PointerState | undefined {
+    const pointer = this.pointers.get(id) ?? this.pointersJustReleased.get(id);
+    return pointer ? { ...pointer } : undefined;
+  }
+
+  /**
+   * Check if a pointer is currently pressed
+   */
+  isPointerDown(id: number): boolean {
+    return this.pointers.get(id)?.down ?? false;
+  }
+
+  /**
+   * Check if a pointer was just pressed this frame
+   */
+  isPointerJustPressed(id: number): boolean {
+    return this.pointersJustPressed.has(id);
+  }
+
+  /**
+   * Check if a pointer was just released this frame
+   */
+  isPointerJustReleased(id: number): boolean {
+    return this.pointersJustReleased.has(id);
+  }
+
+  /**
+   * Get the pointers that were just pressed this frame
+   */
+  getJustPressedPointers(): PointerState[] {
+    const pointers: PointerState[] = [];
+    for (const id of this.pointersJustPressed) {
+      const pointer = this.getPointer(id);
+      if (pointer) {
+        pointers.push(pointer);
+      }
+    }
+    return pointers;
+  }
+
+  /**
+   * Get the pointers that were just released this frame (with their last state)
+   */
+  getJustReleasedPointers(): PointerState[] {
+    return Array.from(this.pointersJustReleased.values(), pointer => ({ ...pointer }));
+  }
+
+  /**
+   * Get the pressure of a pointer (0 if it is not pressed or not tracked)
+   */
+  getPointerPressure(id: number): number {
+    return this.pointers.get(id)?.pressure ?? 0;
+  }
+
+  /**
+   * Number of pressed pointers (e.g. fingers on the screen)
+   */
+  getPointerDownCount(): number {
+    let count = 0;
+    for (const pointer of this.pointers.values()) {
+      if (pointer.down) {
+        count++;
+      }
+    }
+    return count;
+  }
+
   /**
    * Clear all input state
    */
@@ -236,11 +630,31 @@ export class InputManager implements InputManagerLike {
     // Mouse
     this.mouseX = 0;
     this.mouseY = 0;
+    this.mouseButtonMask = 0;
     this.mouseButtons.clear();
     this.mouseButtonsBuffer.clear();
     this.mouseButtonsReleasedBuffer.clear();
     this.mouseButtonsJustPressed.clear();
     this.mouseButtonsJustReleased.clear();
+    
+    // Pointers
+    this.pointers.clear();
+    this.pointersPressedBuffer.clear();
+    this.pointersReleasedBuffer.clear();
+    this.pointersJustPressed.clear();
+    this.pointersJustReleased.clear();
+    this.primaryPointerEvent = null;
+    this.mouseOwnerId = null;
+    
+    // Wheel
+    this.wheelX = 0;
+    this.wheelY = 0;
+    this.wheelBufferX = 0;
+    this.wheelBufferY = 0;
+    
+    // Gamepads and gestures
+    this.gamepads.clear();
+    this.gestures.clear();
   }
 
   /**
@@ -258,63 +672,271 @@ export class InputManager implements InputManagerLike {
    * Handle keydown events
    */
   private handleKeyDown = (event: KeyboardEvent) => {
-    const { code } = event;
-    if (!this.pressed.has(code)) {
-      this.pressedBuffer.add(code);
+    if (!this.source) {
+      this.applyChange(['+', event.code]);
     }
-    this.pressed.add(code);
   };
 
   /**
    * Handle keyup events
    */
   private handleKeyUp = (event: KeyboardEvent) => {
-    const { code } = event;
-    if (this.pressed.has(code)) {
-      this.releasedBuffer.add(code);
+    if (!this.source) {
+      this.applyChange(['-', event.code]);
     }
-    this.pressed.delete(code);
   };
 
   /**
-   * Handle mouse move events
+   * Handle pointer move events (also reports chorded mouse button changes)
    */
-  private handleMouseMove = (event: MouseEvent) => {
-    if (!this.canvas) return;
-    
-    const rect = this.canvas.getBoundingClientRect();
-    // Get mouse position relative to canvas
-    let x = event.clientX - rect.left;
-    let y = event.clientY - rect.top;
-    
-    // Apply inverse transformation to account for scaling and offset
-    x = (x - this.offsetX) / this.scaleX;
-    y = (y - this.offsetY) / this.scaleY;
-    
-    this.mouseX = x;
-    this.mouseY = y;
+  private handlePointerMove = (event: PointerEvent) => {
+    if (this.source) {
+      return;
+    }
+    this.updatePointer(event);
+  };
+
+  /**
+   * Handle pointer down events
+   */
+  private handlePointerDown = (event: PointerEvent) => {
+    if (this.source) {
+      return;
+    }
+    const pointer = this.updatePointer(event);
+    if (!pointer.down) {
+      pointer.down = true;
+      this.pointersPressedBuffer.add(pointer.id);
+    }
+
+    // Keep receiving this pointer's events when it leaves the canvas
+    try {
+      this.canvas?.setPointerCapture(event.pointerId);
+    } catch {
+      // Pointer is no longer active
+    }
+  };
+
+  /**
+   * Handle pointer up and cancel events
+   */
+  private handlePointerUp = (event: PointerEvent) => {
+    if (this.source) {
+      return;
+    }
+    const pointer = this.updatePointer(event);
+    if (pointer.down) {
+      pointer.down = false;
+      pointer.pressure = 0;
+      this.pointersReleasedBuffer.set(pointer.id, { ...pointer });
+    }
+
+    // Fingers and pens are gone once lifted; the mouse keeps hovering
+    if (pointer.type !== "mouse") {
+      this.pointers.delete(pointer.id);
+      if (this.mouseOwnerId === pointer.id) {
+        this.mouseOwnerId = null;
+        this.applyChange(['b', 0]);
+      }
+    }
   };
 
   /**
-   * Handle mouse down events
+   * Handle pointer leave events (hovering pens)
    */
-  private handleMouseDown = (event: MouseEvent) => {
-    const button = event.button;
-    if (!this.mouseButtons.has(button)) {
-      this.mouseButtonsBuffer.add(button);
+  private handlePointerLeave = (event: PointerEvent) => {
+    if (this.source) {
+      return;
+    }
+    const pointer = this.pointers.get(event.pointerId);
+    if (pointer && !pointer.down && pointer.type !== "mouse") {
+      this.pointers.delete(pointer.id);
     }
-    this.mouseButtons.add(button);
   };
 
   /**
-   * Handle mouse up events
+   * Update the tracked state of a pointer from an event
    */
-  private handleMouseUp = (event: MouseEvent) => {
-    const button = event.button;
-    if (this.mouseButtons.has(button)) {
-      this.mouseButtonsReleasedBuffer.add(button);
+  private updatePointer(event: PointerEvent): PointerState {
+    let pointer = this.pointers.get(event.pointerId);
+    if (!pointer) {
+      pointer = {
+        id: event.pointerId,
+        type: event.pointerType || "mouse",
+        x: 0,
+        y: 0,
+        pressure: 0,
+        buttons: 0,
+        isPrimary: event.isPrimary,
+        down: false,
+      };
+      this.pointers.set(pointer.id, pointer);
     }
-    this.mouseButtons.delete(button);
+
+    const { x, y } = this.toStagePosition(event);
+    pointer.x = x;
+    pointer.y = y;
+    pointer.pressure = event.pressure;
+    pointer.buttons = event.buttons;
+    pointer.isPrimary = event.isPrimary;
+
+    // A pressed primary pointer keeps the mouse state until it is released
+    if (event.isPrimary && (this.mouseOwnerId === null || this.mouseOwnerId === pointer.id)) {
+      this.mouseOwnerId = event.buttons !== 0 ? pointer.id : null;
+      this.primaryPointerEvent = event;
+      this.applyChange(['m', x, y]);
+      this.applyChange(['b', event.buttons]);
+    }
+
+    return pointer;
+  }
+
+  /**
+   * Apply a change that did not come from a DOM event
+   * Mouse moves and button changes are mirrored to the synthetic pointer.
+   */
+  private applyExternalChange(change: InputChange): void {
+    this.applyChange(change);
+    if (change[0] === 'm' || change[0] === 'b') {
+      this.updateSyntheticPointer();
+    }
+  }
+
+  /**
+   * Sync the synthetic mouse pointer with the mouse position and buttons
+   */
+  private updateSyntheticPointer(): void {
+    let pointer = this.pointers.get(SYNTHETIC_POINTER_ID);
+    if (!pointer) {
+      pointer = {
+        id: SYNTHETIC_POINTER_ID,
+        type: "mouse",
+        x: 0,
+        y: 0,
+        pressure: 0,
+        buttons: 0,
+        isPrimary: true,
+        down: false,
+      };
+      this.pointers.set(pointer.id, pointer);
+    }
+
+    pointer.x = this.mouseX;
+    pointer.y = this.mouseY;
+    pointer.buttons = this.mouseButtonMask;
+
+    const down = this.mouseButtonMask !== 0;
+    if (down && !pointer.down) {
+      pointer.down = true;
+      pointer.pressure = 0.5;
+      this.pointersPressedBuffer.add(pointer.id);
+    } else if (!down && pointer.down) {
+      pointer.down = false;
+      pointer.pressure = 0;
+      this.pointersReleasedBuffer.set(pointer.id, { ...pointer });
+    }
+  }
+
+  /**
+   * Apply a keyboard or mouse change and notify change listeners if state changed
+   */
+  private applyChange(change: InputChange): void {
+    switch (change[0]) {
+      case '+':
+        if (this.pressed.has(change[1])) {
+          return; // Key repeat
+        }
+        this.pressed.add(change[1]);
+        this.pressedBuffer.add(change[1]);
+        break;
+      case '-':
+        if (!this.pressed.delete(change[1])) {
+          return;
+        }
+        this.releasedBuffer.add(change[1]);
+        break;
+      case 'm':
+        if (change[1] === this.mouseX && change[2] === this.mouseY) {
+          return;
+        }
+        this.mouseX = change[1];
+        this.mouseY = change[2];
+        break;
+      case 'b':
+        if (change[1] === this.mouseButtonMask) {
+          return;
+        }
+        this.mouseButtonMask = change[1];
+        this.updateMouseButtons(change[1]);
+        break;
+      case 'w':
+        if (change[1] === 0 && change[2] === 0) {
+          return;
+        }
+        this.wheelBufferX += change[1];
+        this.wheelBufferY += change[2];
+        break;
+    }
+
+    for (const listener of this.changeListeners) {
+      listener(change);
+    }
+  }
+
+  /**
+   * Diff the pressed buttons bitmask against the mouse button state
+   * Pointer events only fire down/up for the first and last button of a
+   * chord, so other buttons are detected from the bitmask.
+   */
+  private updateMouseButtons(buttons: number): void {
+    for (const [button, bit] of Object.entries(BUTTON_BITS)) {
+      const code = Number(button);
+      const isDown = (buttons & bit) !== 0;
+      const wasDown = this.mouseButtons.has(code);
+
+      if (isDown && !wasDown) {
+        this.mouseButtonsBuffer.add(code);
+        this.mouseButtons.add(code);
+      } else if (!isDown && wasDown) {
+        this.mouseButtonsReleasedBuffer.add(code);
+        this.mouseButtons.delete(code);
+      }
+    }
+  }
+
+  /**
+   * Convert an event's client position to stage coordinates
+   */
+  private toStagePosition(event: PointerEvent): { x: number; y: number } {
+    if (!this.canvas) {
+      return { x: this.mouseX, y: this.mouseY };
+    }
+    
+    const rect = this.canvas.getBoundingClientRect();
+    // Get pointer position relative to canvas
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    
+    // Apply inverse transformation to account for scaling and offset
+    return {
+      x: (x - this.offsetX) / this.scaleX,
+      y: (y - this.offsetY) / this.scaleY,
+    };
+  }
+
+  /**
+   * Handle wheel events (scrolling the canvas must not scroll the page)
+   */
+  private handleWheel = (event: WheelEvent) => {
+    event.preventDefault();
+    if (this.source) {
+      return;
+    }
+
+    // Line and page deltas (deltaMode 1 and 2) are converted to pixels, then
+    // scaled to stage coordinates like pointer positions
+    const unit = event.deltaMode === 1 ? 16 : event.deltaMode === 2 ? (this.canvas?.clientHeight || 800) : 1;
+    this.applyChange(['w', (event.deltaX * unit) / this.scaleX, (event.deltaY * unit) / this.scaleY]);
   };
 
   /**
@@ -0,0 +1,117 @@
+/**
+ * Input Recorder
+ *
+ * Captures the keyboard and mouse changes seen by an InputManager, grouped
+ * by the frame (beginFrame call) that consumed them. Frames without changes
+ * are not stored, so idle stretches of a session cost nothing.
+ *
+ * Pointers other than the primary one and gamepads are not recorded; on
+ * replay the primary pointer becomes InputManager's synthetic mouse pointer.
+ */
+
+import type { InputChange, InputManager } from './InputManager';
+
+/**
+ * A recorded input session (plain JSON)
+ */
+export interface InputRecording {
+  version: 1;
+  /** Keyboard and mouse state when recording started */
+  initial: InputChange[];
+  /** Number of recorded frames */
+  frames: number;
+  /** [frame index, changes] for every frame with changes, in frame order */
+  changes: Array<[number, InputChange[]]>;
+}
+
+/**
+ * InputRecorder - Records an InputManager's changes per frame
+ *
+ * Recording starts with the input state at the time of start(), so a replay
+ * begins with the same keys and mouse buttons held. Replay it with
+ * InputReplay; with the same frame deltas (e.g. HeadlessEngine.tick() with a
+ * fixed delta), the game sees the same input on every frame, and gestures
+ * timed by the frame time are recognized on the same frames.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new InputRecorder(engine.input);
+ * recorder.start();
+ * // ... play ...
+ * const json = JSON.stringify(recorder.stop());
+ * ```
+ */
+export class InputRecorder {
+  private readonly input: InputManager;
+  private frames = 0;
+  private initial: InputChange[] = [];
+  private changes: Array<[number, InputChange[]]> = [];
+  private current: InputChange[] = [];
+  private unsubscribe: (() => void)[] = [];
+
+  constructor(input: InputManager) {
+    this.input = input;
+  }
+
+  /**
+   * Start a new recording (discarding any previous one)
+   */
+  start(): void {
+    this.stop();
+    this.frames = 0;
+    this.changes = [];
+    this.initial = this.input.getStateChanges();
+
+    this.unsubscribe = [
+      this.input.onChange(change => {
+        this.current.push(change);
+      }),
+      this.input.onBeginFrame(() => {
+        if (this.current.length > 0) {
+          this.changes.push([this.frames, this.current]);
+          this.current = [];
+        }
+        this.frames++;
+      }),
+    ];
+  }
+
+  /**
+   * Stop recording and return the recording
+   * Changes not yet consumed by a frame are dropped.
+   */
+  stop(): InputRecording {
+    for (const unsubscribe of this.unsubscribe) {
+      unsubscribe();
+    }
+    this.unsubscribe = [];
+    this.current = [];
+    return this.getRecording();
+  }
+
+  /**
+   * Check if the recorder is running
+   */
+  isRecording(): boolean {
+    return this.unsubscribe.length > 0;
+  }
+
+  /**
+   * Get a copy of the frames recorded so far
+   */
+  getRecording(): InputRecording {
+    return {
+      version: 1,
+      initial: [...this.initial],
+      frames: this.frames,
+      changes: this.changes.map(([frame, changes]): [number, InputChange[]] => [frame, [...changes]]),
+    };
+  }
+
+  /**
+   * Number of frames recorded so far
+   */
+  get frameCount(): number {
+    return this.frames;
+  }
+}
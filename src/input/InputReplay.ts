@@ -0,0 +1,101 @@
+/**
+ * Input Replay
+ *
+ * Plays an InputRecording back through an InputManager, one recorded frame
+ * per beginFrame call, in place of DOM input.
+ */
+
+import type { InputChange, InputSource } from './InputManager';
+import type { InputRecording } from './InputRecorder';
+
+export interface InputReplayOptions {
+  /** Called once the last recorded frame has been played */
+  onComplete?: () => void;
+}
+
+/**
+ * InputReplay - InputSource that replays a recording
+ *
+ * @example
+ * ```typescript
+ * const replay = new InputReplay(JSON.parse(json), {
+ *   onComplete: () => console.log('Replay finished'),
+ * });
+ * engine.input.setSource(replay);
+ * for (let frame = 0; frame < replay.length; frame++) {
+ *   engine.tick(1 / 60);
+ * }
+ * ```
+ */
+export class InputReplay implements InputSource {
+  private readonly recording: InputRecording;
+  private readonly onComplete?: () => void;
+  private frame = 0;
+  private next = 0;
+
+  constructor(recording: InputRecording, options: InputReplayOptions = {}) {
+    if (recording.version !== 1) {
+      throw new Error(`InputReplay: Unsupported recording version ${recording.version}`);
+    }
+    this.recording = recording;
+    this.onComplete = options.onComplete;
+  }
+
+  /**
+   * Changes for the next frame, or null once the recording is exhausted
+   */
+  nextFrame(): InputChange[] | null {
+    if (this.frame >= this.recording.frames) {
+      return null;
+    }
+
+    const frame = this.frame++;
+    let changes: InputChange[] = [];
+    const entry = this.recording.changes[this.next];
+    if (entry && entry[0] === frame) {
+      changes = entry[1];
+      this.next++;
+    }
+
+    if (this.frame === this.recording.frames) {
+      this.onComplete?.();
+    }
+    return changes;
+  }
+
+  /**
+   * State to start from, as it was when recording started
+   */
+  getInitialState(): InputChange[] {
+    return this.recording.initial;
+  }
+
+  /**
+   * Index of the next frame to play
+   */
+  get position(): number {
+    return this.frame;
+  }
+
+  /**
+   * Total number of frames in the recording
+   */
+  get length(): number {
+    return this.recording.frames;
+  }
+
+  /**
+   * Check if every frame has been played
+   */
+  isFinished(): boolean {
+    return this.frame >= this.recording.frames;
+  }
+
+  /**
+   * Restart from the first frame
+   */
+  reset(): void {
+    this.frame = 0;
+    this.next = 0;
+  }
+}
@@ -1,7 +1,12 @@
 /**
  * Input Module
  * 
- * Provides input management for keyboard, mouse, and other input devices.
+ * Provides input management for keyboard, mouse, touch, gamepads, and other input devices.
  */
 
+export * from './ActionMap';
+export * from './GamepadInput';
+export * from './GestureRecognizer';
 export * from './InputManager';
+export * from './InputRecorder';
+export * from './InputReplay';
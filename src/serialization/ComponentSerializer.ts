@@ -16,10 +16,15 @@
  * 
  * // Deserialize
  * const component = ComponentSerializer.deserialize(serialized);
+ * 
+ * // Data components (ComponentType values) are serialized by their name
+ * ComponentSerializer.registerData(Position);
+ * const data = ComponentSerializer.serializeData(Position, entity.getData(Position));
+ * const { type, value } = ComponentSerializer.deserializeData(data)!;
  * ```
  */
 
-import { Component } from '../ecs/Component';
+import { Component, ComponentType } from '../ecs/Component';
 import {
   SerializedComponent,
   ComponentFactory,
@@ -42,6 +47,7 @@ export interface ComponentSerializerConfig {
 
 export class ComponentSerializer {
   private static factories = new Map<string, ComponentFactory>();
+  private static dataTypes = new Map<string, ComponentType<any>>();
   private static migrators = new Map<string, Map<string, (data: any) => any>>();
   private static config: ComponentSerializerConfig = {
     warnOnMissingFactory: true,
@@ -82,6 +88,38 @@ export class ComponentSerializer {
     }
   }
 
+  /**
+   * Register a data component type, looked up by its name when deserializing
+   */
+  static registerData(type: ComponentType<any>): void {
+    const existing = this.dataTypes.get(type.name);
+    if (existing && existing !== type) {
+      console.warn(`⚠️ Overwriting existing data component type: ${type.name}`);
+    }
+
+    this.dataTypes.set(type.name, type);
+
+    if (this.config.debug) {
+      console.log(`📦 Registered data component type: ${type.name}`);
+    }
+  }
+
+  /**
+   * Register multiple data component types at once
+   */
+  static registerDataMany(types: ComponentType<any>[]): void {
+    for (const type of types) {
+      this.registerData(type);
+    }
+  }
+
+  /**
+   * Check if a data component type is registered
+   */
+  static isDataRegistered(name: string): boolean {
+    return this.dataTypes.has(name);
+  }
+
   /**
    * Register a migration function for component version updates
    * @param typeName - Component type name
@@ -200,6 +238,58 @@ export class ComponentSerializer {
     }
   }
 
+  /**
+   * Serialize a data component value under its type's name
+   */
+  static serializeData(type: ComponentType<any>, value: unknown, _options?: SerializationOptions): SerializedComponent {
+    try {
+      return {
+        type: type.name,
+        data: this.serializeValue(value),
+        version: this.config.defaultVersion
+      };
+    } catch (error) {
+      throw new SerializationError(
+        `Failed to serialize data component ${type.name}: ${error}`,
+        'serialize',
+        { type, value, error }
+      );
+    }
+  }
+
+  /**
+   * Deserialize a data component value using the type registered under its name
+   * Missing fields are filled from the type's defaults.
+   */
+  static deserializeData(
+    serialized: SerializedComponent,
+    options?: DeserializationOptions
+  ): { type: ComponentType<any>; value: any } | null {
+    const type = this.dataTypes.get(serialized.type);
+
+    if (!type) {
+      if (this.config.warnOnMissingFactory || options?.strict) {
+        const message = `No data component type registered for: ${serialized.type}`;
+        if (options?.strict) {
+          throw new SerializationError(message, 'deserialize', { serialized });
+        }
+        console.warn(`⚠️ ${message}`);
+      }
+      return null;
+    }
+
+    try {
+      const migratedData = this.applyMigrations(serialized);
+      return { type, value: type.create(migratedData.data) };
+    } catch (error) {
+      throw new SerializationError(
+        `Failed to deserialize data component ${serialized.type}: ${error}`,
+        'deserialize',
+        { serialized, error }
+      );
+    }
+  }
+
   /**
    * Serialize multiple components
    */
@@ -325,13 +415,14 @@ export class ComponentSerializer {
    */
   static clear(): void {
     this.factories.clear();
+    this.dataTypes.clear();
     this.migrators.clear();
   }
 
   /**
    * Get statistics about registered components
    */
-  static getStats(): { totalFactories: number; totalMigrations: number } {
+  static getStats(): { totalFactories: number; totalDataTypes: number; totalMigrations: number } {
     let totalMigrations = 0;
     for (const migrations of this.migrators.values()) {
       totalMigrations += migrations.size;
@@ -339,6 +430,7 @@ export class ComponentSerializer {
     
     return {
       totalFactories: this.factories.size,
+      totalDataTypes: this.dataTypes.size,
       totalMigrations
     };
   }
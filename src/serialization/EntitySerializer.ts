@@ -3,6 +3,8 @@
  * 
  * Handles serialization and deserialization of entire entities.
  * Works with ComponentSerializer to handle all entity data.
+ * Child entities are written to and restored from the `children` array,
+ * data components (ComponentType values) from `dataComponents`.
  * Renamed from GameObjectSerializer for clarity with ECS terminology.
  * 
  * @example
@@ -13,6 +15,9 @@
  * // Deserialize into a world
  * const entity = EntitySerializer.deserialize(world, serialized);
  * 
+ * // Load a save, keeping the saved entity IDs
+ * EntitySerializer.deserialize(world, serialized, { preserveIds: true });
+ * 
  * // Register a custom entity factory
  * EntitySerializer.register('tower', (data, world) => {
  *   return createTowerEntity(world, data);
@@ -132,12 +137,27 @@ export class EntitySerializer {
 
       const serialized: SerializedEntity = {
         id: entity.id.toString(),
+        generation: entity.generation,
         name: entity.name,
         type,
-        active: true,
+        active: entity.active,
         components
       };
 
+      // Serialize data components by their type name
+      const dataComponents = entity.getAllData();
+      if (dataComponents.length > 0) {
+        serialized.dataComponents = dataComponents.map(({ type, value }) =>
+          ComponentSerializer.serializeData(type, value, options)
+        );
+      }
+
+      // Serialize child entities recursively
+      const children = entity.getChildren();
+      if (children.length > 0) {
+        serialized.children = children.map(child => this.serialize(child, options));
+      }
+
       // Add metadata if configured
       if (this.config.includeMetadata || options?.includeMetadata) {
         serialized.metadata = {
@@ -157,12 +177,36 @@ export class EntitySerializer {
   }
 
   /**
-   * Deserialize an entity and add it to the world
+   * Deserialize an entity (and its children) and add it to the world
    */
   static deserialize(
     world: World,
     serialized: SerializedEntity,
     options?: DeserializationOptions
+  ): Entity | null {
+    const entity = this.deserializeEntity(world, serialized, options);
+
+    if (entity) {
+      if (serialized.active === false) {
+        entity.active = false;
+      }
+
+      for (const childData of serialized.children ?? []) {
+        const child = this.deserialize(world, childData, options);
+        child?.setParent(entity);
+      }
+    }
+
+    return entity;
+  }
+
+  /**
+   * Deserialize a single entity without its children
+   */
+  private static deserializeEntity(
+    world: World,
+    serialized: SerializedEntity,
+    options?: DeserializationOptions
   ): Entity | null {
     // Check for custom factory
     const factory = this.factories.get(serialized.type);
@@ -181,7 +225,10 @@ export class EntitySerializer {
 
     // Default deserialization
     try {
-      const entity = world.createEntity(serialized.name);
+      const entity = world.createEntity(
+        serialized.name,
+        options?.preserveIds ? { id: Number(serialized.id), generation: serialized.generation } : undefined
+      );
       
       // Deserialize and add each component
       const components = ComponentSerializer.deserializeMany(
@@ -193,6 +240,14 @@ export class EntitySerializer {
         entity.addComponent(component);
       }
 
+      // Restore data components from their registered types
+      for (const data of serialized.dataComponents ?? []) {
+        const restored = ComponentSerializer.deserializeData(data, options);
+        if (restored) {
+          entity.addData(restored.type, restored.value);
+        }
+      }
+
       return entity;
     } catch (error) {
       if (options?.strict) {
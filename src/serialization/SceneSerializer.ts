@@ -70,9 +70,9 @@ export class SceneSerializer {
     options?: SerializationOptions
   ): SerializedScene<TConfig> {
     try {
-      // Serialize all entities in the world
+      // Serialize all root entities in the world (children are nested)
       const entities = EntitySerializer.serializeMany(
-        world.getAllEntities(),
+        world.getRootEntities(),
         options
       );
 
@@ -29,6 +29,9 @@ export interface SerializedEntity {
   /** Unique identifier for the entity */
   id: string;
   
+  /** Generation of the entity's ID in its world */
+  generation?: number;
+  
   /** Human-readable name */
   name: string;
   
@@ -41,6 +44,9 @@ export interface SerializedEntity {
   /** Array of serialized components */
   components: SerializedComponent[];
   
+  /** Data components (ComponentType values), typed by their ComponentType name */
+  dataComponents?: SerializedComponent[];
+  
   /** Optional metadata */
   metadata?: Record<string, any>;
   
@@ -150,6 +156,9 @@ export interface DeserializationOptions {
   
   /** Context to pass to factories */
   context?: any;
+  
+  /** Recreate entities with their serialized IDs and generations (fails if an ID is in use) */
+  preserveIds?: boolean;
 }
 
 /**
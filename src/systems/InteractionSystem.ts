@@ -0,0 +1,140 @@
+/**
+ * Interaction System
+ * 
+ * Dispatches pointer events to InteractableComponents using the InputManager
+ * mouse state (driven by the primary mouse, touch or pen pointer). Each frame the pointer is hit-tested against every entity with
+ * a TransformComponent and an InteractableComponent, and the hits are ordered
+ * topmost first by RenderableComponent.zIndex.
+ * 
+ * Interactables with `interactive` set to false (see disable()) are never
+ * hit, so the entity underneath receives the events instead.
+ * 
+ * Only the topmost hit receives hover and click events, unless it has
+ * `passThrough` enabled, in which case the next entity underneath receives
+ * them as well (and so on). Events fire in this order every frame:
+ * 1. pointer leave - entities no longer under the pointer
+ * 2. pointer enter - entities newly under the pointer
+ * 3. hover - all entities under the pointer
+ * 4. click - all entities under the pointer, when the left button was just pressed
+ * 
+ * @example
+ * ```typescript
+ * engine.world.addSystem(new InteractionSystem(engine.world, engine.input));
+ * ```
+ */
+
+import { InteractableComponent } from '../components/InteractableComponent';
+import { RenderableComponent } from '../components/RenderableComponent';
+import { TransformComponent } from '../components/TransformComponent';
+import type { Entity } from '../ecs/Entity';
+import { System } from '../ecs/System';
+import { World } from '../ecs/World';
+import { MouseButton, type InputManagerLike } from '../input/InputManager';
+
+/**
+ * An entity under the pointer
+ */
+export interface InteractionHit {
+  entity: Entity;
+  interactable: InteractableComponent;
+  zIndex: number;
+}
+
+export class InteractionSystem extends System {
+  private readonly _input: InputManagerLike;
+  private _hovered: Set<InteractableComponent> = new Set();
+
+  /**
+   * Create a new InteractionSystem
+   * @param world - World to dispatch events in
+   * @param input - Input manager providing mouse position and buttons
+   */
+  constructor(world: World, input: InputManagerLike) {
+    super(world);
+    this.phase = 'input'; // Before gameplay systems
+    this.priority = -100;
+    this.runWhilePaused = true; // Pause menus still need pointer events
+    this._input = input;
+  }
+
+  getRequiredComponents(): string[] {
+    return ['Transform', 'Interactable'];
+  }
+
+  update(_deltaTime: number): void {
+    const { x, y } = this._input.getMousePosition();
+    const event = this._input.getPrimaryPointerEvent?.() ?? undefined;
+    const targets = this.getTargets(x, y);
+    const current = new Set(targets.map(hit => hit.interactable));
+
+    for (const interactable of this._hovered) {
+      if (!current.has(interactable)) {
+        interactable.handlePointerLeave(x, y, event);
+      }
+    }
+
+    for (const { interactable } of targets) {
+      interactable.handlePointerEnter(x, y, event);
+    }
+
+    for (const { interactable } of targets) {
+      interactable.handleHover(x, y, event);
+    }
+
+    if (this._input.isMouseButtonJustPressed(MouseButton.Left)) {
+      for (const { interactable } of targets) {
+        interactable.handleClick(x, y, event);
+      }
+    }
+
+    this._hovered = current;
+  }
+
+  onDestroy(): void {
+    const { x, y } = this._input.getMousePosition();
+    for (const interactable of this._hovered) {
+      interactable.handlePointerLeave(x, y);
+    }
+    this._hovered.clear();
+  }
+
+  /**
+   * Get the entities that should receive events at a point, topmost first
+   * @param x - Point X coordinate
+   * @param y - Point Y coordinate
+   */
+  public getTargets(x: number, y: number): InteractionHit[] {
+    const hits = this.hitTest(x, y);
+    const targets: InteractionHit[] = [];
+
+    for (const hit of hits) {
+      targets.push(hit);
+      if (!hit.interactable.passThrough) {
+        break;
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Get all entities under a point, topmost first
+   * @param x - Point X coordinate
+   * @param y - Point Y coordinate
+   */
+  public hitTest(x: number, y: number): InteractionHit[] {
+    const hits: InteractionHit[] = [];
+
+    for (const entity of this.getEntities()) {
+      const interactable = entity.getComponent<InteractableComponent>('Interactable')!;
+      const transform = entity.getComponent<TransformComponent>('Transform')!;
+      if (interactable.containsPoint(x, y, transform)) {
+        const zIndex = entity.getComponent<RenderableComponent>('Renderable')?.zIndex ?? 0;
+        hits.push({ entity, interactable, zIndex });
+      }
+    }
+
+    // Later entities render on top at equal zIndex, so they are hit first
+    return hits.reverse().sort((a, b) => b.zIndex - a.zIndex);
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Render Sync System
+ * 
+ * Links RenderableComponent graphics to the scene graph and to the entity's
+ * TransformComponent. Graphics are added to the configured container when a
+ * RenderableComponent appears in the world and removed when it is detached
+ * or its entity is destroyed. Every frame, in the render phase, the
+ * world-space position, rotation and scale are copied to the graphics along
+ * with zIndex, visibility, alpha and tint. Entities that are inactive (or
+ * have an inactive ancestor) are hidden.
+ * 
+ * With `interpolate` enabled and a fixed time step, transforms are captured
+ * after every fixed step and graphics are drawn between the last two captures
+ * using the render alpha, so motion stays smooth when the render rate and the
+ * simulation rate differ. Transforms changed outside the fixed steps are
+ * drawn as they are.
+ * 
+ * @example
+ * ```typescript
+ * engine.world.addSystem(new TransformSystem(engine.world));
+ * engine.world.addSystem(new RenderSyncSystem(engine.world, engine.stage, { interpolate: true }));
+ * ```
+ */
+
+import type { Container } from 'pixi.js';
+import { RenderableComponent } from '../components/RenderableComponent';
+import { TransformComponent } from '../components/TransformComponent';
+import type { Entity } from '../ecs/Entity';
+import { System } from '../ecs/System';
+import { World } from '../ecs/World';
+
+export interface RenderSyncOptions {
+  /** Interpolate transforms between fixed steps using the render alpha */
+  interpolate?: boolean;
+}
+
+/** World-space transform captured after a fixed step */
+interface Pose {
+  x: number;
+  y: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+export class RenderSyncSystem extends System {
+  /** Whether transforms are interpolated between fixed steps */
+  public interpolate: boolean;
+
+  private _container: Container | null;
+  private readonly _renderables: Map<RenderableComponent, Entity> = new Map();
+  private readonly _poses: Map<RenderableComponent, { previous: Pose; current: Pose }> = new Map();
+  private _unsubscribers: Array<() => void> = [];
+
+  /**
+   * Create a new RenderSyncSystem
+   * @param world - World to sync
+   * @param container - Container that graphics are added to (can be set later)
+   * @param options - Sync options
+   */
+  constructor(world: World, container?: Container, options?: RenderSyncOptions) {
+    super(world);
+    this.phase = 'render'; // After TransformSystem (postUpdate)
+    this.priority = 1000;
+    this.interpolate = options?.interpolate ?? false;
+    this._container = null;
+    if (container) {
+      this.setContainer(container);
+    }
+  }
+
+  getRequiredComponents(): string[] {
+    return ['Renderable'];
+  }
+
+  onInit(): void {
+    this._unsubscribers.push(
+      this._world.onComponentAdded<RenderableComponent>('Renderable', (entity, renderable) => {
+        this.attach(entity, renderable);
+      }),
+      this._world.onComponentRemoved<RenderableComponent>('Renderable', (_entity, renderable) => {
+        this.detach(renderable);
+      })
+    );
+
+    // Pick up renderables that were added before the system
+    this._world.traverse(entity => {
+      for (const renderable of entity.getComponents<RenderableComponent>('Renderable')) {
+        this.attach(entity, renderable);
+      }
+    });
+  }
+
+  fixedUpdate(_fixedDeltaTime: number): void {
+    if (!this.interpolate) {
+      return;
+    }
+
+    for (const [renderable, entity] of this._renderables) {
+      const transform = entity.getComponent<TransformComponent>('Transform');
+      if (!transform) {
+        continue;
+      }
+
+      const pose = this.capture(transform);
+      const poses = this._poses.get(renderable);
+      if (poses) {
+        poses.previous = poses.current;
+        poses.current = pose;
+      } else {
+        this._poses.set(renderable, { previous: pose, current: pose });
+      }
+    }
+  }
+
+  render(alpha: number): void {
+    for (const [renderable, entity] of this._renderables) {
+      this.sync(entity, renderable, alpha);
+    }
+  }
+
+  onDestroy(): void {
+    for (const unsubscribe of this._unsubscribers) {
+      unsubscribe();
+    }
+    this._unsubscribers = [];
+
+    for (const renderable of [...this._renderables.keys()]) {
+      this.detach(renderable);
+    }
+  }
+
+  /**
+   * Set the container graphics are added to
+   * Graphics that are already attached are moved to the new container.
+   * @param container - PixiJS Container (children are sorted by zIndex)
+   */
+  public setContainer(container: Container | null): this {
+    this._container = container;
+    if (container) {
+      container.sortableChildren = true;
+    }
+
+    for (const renderable of this._renderables.keys()) {
+      renderable.removeFromParent();
+      if (container) {
+        renderable.addTo(container);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Get the container graphics are added to
+   */
+  public getContainer(): Container | null {
+    return this._container;
+  }
+
+  /**
+   * Start syncing a renderable and add its graphics to the container
+   */
+  private attach(entity: Entity, renderable: RenderableComponent): void {
+    if (this._renderables.has(renderable)) {
+      return;
+    }
+
+    this._renderables.set(renderable, entity);
+    if (this._container && renderable.graphics.parent !== this._container) {
+      renderable.addTo(this._container);
+    }
+    this.sync(entity, renderable, 1);
+  }
+
+  /**
+   * Stop syncing a renderable and remove its graphics from the container
+   */
+  private detach(renderable: RenderableComponent): void {
+    if (this._renderables.delete(renderable)) {
+      this._poses.delete(renderable);
+      renderable.removeFromParent();
+    }
+  }
+
+  /**
+   * Copy transform and render properties to the graphics object
+   */
+  private sync(entity: Entity, renderable: RenderableComponent, alpha: number): void {
+    const graphics = renderable.graphics;
+    const transform = entity.getComponent<TransformComponent>('Transform');
+
+    if (transform) {
+      let pose = this.capture(transform);
+      const poses = this.interpolate ? this._poses.get(renderable) : undefined;
+      if (poses && this.isSamePose(pose, poses.current)) {
+        pose = this.lerpPose(poses.previous, poses.current, alpha);
+      }
+
+      graphics.position.set(pose.x, pose.y);
+      graphics.rotation = pose.rotation;
+      graphics.scale.set(pose.scaleX, pose.scaleY);
+    }
+
+    graphics.zIndex = renderable.zIndex;
+    graphics.visible = renderable.visible && renderable.enabled && entity.isActiveInHierarchy();
+    graphics.alpha = renderable.alpha;
+    if (graphics.tint !== renderable.tint) {
+      graphics.tint = renderable.tint;
+    }
+  }
+
+  /**
+   * Capture the current world-space transform
+   */
+  private capture(transform: TransformComponent): Pose {
+    const position = transform.getWorldPosition();
+    const scale = transform.getWorldScale();
+    return {
+      x: position.x,
+      y: position.y,
+      rotation: transform.getWorldRotation(),
+      scaleX: scale.x,
+      scaleY: scale.y
+    };
+  }
+
+  /**
+   * Check if two poses are identical
+   */
+  private isSamePose(a: Pose, b: Pose): boolean {
+    return a.x === b.x && a.y === b.y && a.rotation === b.rotation && a.scaleX === b.scaleX && a.scaleY === b.scaleY;
+  }
+
+  /**
+   * Interpolate between two poses (rotation takes the shortest path)
+   */
+  private lerpPose(from: Pose, to: Pose, alpha: number): Pose {
+    let deltaRotation = (to.rotation - from.rotation) % (Math.PI * 2);
+    if (deltaRotation > Math.PI) deltaRotation -= Math.PI * 2;
+    if (deltaRotation < -Math.PI) deltaRotation += Math.PI * 2;
+
+    return {
+      x: from.x + (to.x - from.x) * alpha,
+      y: from.y + (to.y - from.y) * alpha,
+      rotation: from.rotation + deltaRotation * alpha,
+      scaleX: from.scaleX + (to.scaleX - from.scaleX) * alpha,
+      scaleY: from.scaleY + (to.scaleY - from.scaleY) * alpha
+    };
+  }
+}
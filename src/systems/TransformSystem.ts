@@ -0,0 +1,69 @@
+/**
+ * Transform System
+ * 
+ * Keeps the cached world matrices of all TransformComponents up to date.
+ * The hierarchy is walked once from the transforms without a transformed
+ * ancestor down, so every parent is resolved before its children. A
+ * transform is only recomputed when its local values changed or its parent
+ * was recomputed, so static hierarchies cost a comparison per entity. Runs
+ * after gameplay systems so rendering and hit testing read this frame's
+ * world positions.
+ */
+
+import { TransformComponent } from '../components/TransformComponent';
+import type { Entity } from '../ecs/Entity';
+import { System } from '../ecs/System';
+import { World } from '../ecs/World';
+
+export class TransformSystem extends System {
+  constructor(world: World) {
+    super(world);
+    this.phase = 'postUpdate'; // After gameplay systems
+    this.priority = 900;
+    this.runWhilePaused = true; // UI transforms still move while paused
+  }
+
+  getRequiredComponents(): string[] {
+    return ['Transform'];
+  }
+
+  update(_deltaTime: number): void {
+    for (const entity of this.getEntities()) {
+      if (this.isTransformRoot(entity)) {
+        this.updateHierarchy(entity, null, false);
+      }
+    }
+  }
+
+  /**
+   * Check if no ancestor of an entity has a transform
+   * Other transforms are reached by walking down from their nearest one.
+   */
+  private isTransformRoot(entity: Entity): boolean {
+    for (let ancestor = entity.getParent(); ancestor; ancestor = ancestor.getParent()) {
+      if (ancestor.hasComponent('Transform')) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Update an entity's transform, then its active children
+   * @param parent - Transform of the nearest ancestor with one
+   * @param parentChanged - Whether that transform was recomputed this frame
+   */
+  private updateHierarchy(entity: Entity, parent: TransformComponent | null, parentChanged: boolean): void {
+    const transform = entity.getComponent<TransformComponent>('Transform');
+    if (transform) {
+      parentChanged = transform.updateFromParent(parent, parentChanged);
+      parent = transform;
+    }
+
+    for (const child of entity.getChildren()) {
+      if (child.active) {
+        this.updateHierarchy(child, parent, parentChanged);
+      }
+    }
+  }
+}
@@ -3,3 +3,6 @@
  */
 
 export * from './StateMachineSystem';
+export * from './TransformSystem';
+export * from './RenderSyncSystem';
+export * from './InteractionSystem';
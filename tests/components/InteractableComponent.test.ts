@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { InteractableComponent } from '../../src/components/InteractableComponent';
+
+describe('InteractableComponent', () => {
+  it('uses width as the diameter of circles', () => {
+    const circle = new InteractableComponent(20, 20, { shape: 'circle', anchorX: 0.5, anchorY: 0.5 });
+
+    expect(circle.containsLocalPoint(0, 0)).toBe(true);
+    expect(circle.containsLocalPoint(9.9, 0)).toBe(true);
+    expect(circle.containsLocalPoint(0, -10.1)).toBe(false);
+    expect(circle.containsLocalPoint(8, 8)).toBe(false);
+    expect(circle.getLocalBounds()).toEqual({ x: -10, y: -10, width: 20, height: 20 });
+  });
+
+  it('centers circles on the entity origin by default', () => {
+    const circle = new InteractableComponent(20, 20, { shape: 'circle' });
+
+    expect(circle.anchorX).toBe(0.5);
+    expect(circle.anchorY).toBe(0.5);
+    expect(circle.containsLocalPoint(0, 0)).toBe(true);
+    expect(circle.containsLocalPoint(-9, 0)).toBe(true);
+    expect(circle.containsLocalPoint(0, 9)).toBe(true);
+    expect(circle.containsLocalPoint(15, 10)).toBe(false);
+    expect(circle.getLocalBounds()).toEqual({ x: -10, y: -10, width: 20, height: 20 });
+    expect(new InteractableComponent(20, 20).anchorX).toBe(0);
+  });
+
+  it('positions circles by the anchor like other box shapes', () => {
+    const circle = new InteractableComponent(20, 50, { shape: 'circle', offsetX: 5, anchorX: 0, anchorY: 0 });
+
+    // Top-left anchor: the circle fills the 20 x 20 box right of and below the origin
+    expect(circle.containsLocalPoint(15, 10)).toBe(true);
+    expect(circle.containsLocalPoint(5, 10)).toBe(true);
+    expect(circle.containsLocalPoint(15, 35)).toBe(false);
+    expect(circle.containsLocalPoint(0, 0)).toBe(false);
+    expect(circle.getLocalBounds()).toEqual({ x: 5, y: 0, width: 20, height: 20 });
+  });
+
+  it('matches an ellipse with equal width and height', () => {
+    const circle = new InteractableComponent(30, 30, { shape: 'circle', anchorX: 1, anchorY: 0.25 });
+    const ellipse = new InteractableComponent(30, 30, { shape: 'ellipse', anchorX: 1, anchorY: 0.25 });
+
+    for (const [x, y] of [[-15, 7], [-2, 0], [-29, 7], [-15, 22], [1, 1], [-15, -8]] as const) {
+      expect(circle.containsLocalPoint(x, y)).toBe(ellipse.containsLocalPoint(x, y));
+    }
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { RenderableComponent } from '../../src/components/RenderableComponent';
+import { TransformComponent } from '../../src/components/TransformComponent';
+import { HeadlessEngine } from '../../src/core/HeadlessEngine';
+import { System } from '../../src/ecs/System';
+import { RenderSyncSystem } from '../../src/systems/RenderSyncSystem';
+
+/** Records every pass it takes part in */
+class RecordingSystem extends System {
+  public updates: number[] = [];
+  public fixedUpdates: number[] = [];
+  public renders: number[] = [];
+
+  getRequiredComponents() {
+    return [];
+  }
+
+  update(deltaTime: number): void {
+    this.updates.push(deltaTime);
+  }
+
+  fixedUpdate(fixedDeltaTime: number): void {
+    this.fixedUpdates.push(fixedDeltaTime);
+  }
+
+  render(alpha: number): void {
+    this.renders.push(alpha);
+  }
+}
+
+/** Moves every transform 10 units right per fixed step */
+class MoveSystem extends System {
+  getRequiredComponents() {
+    return ['Transform'];
+  }
+
+  fixedUpdate(): void {
+    for (const entity of this.getEntities()) {
+      entity.getComponent<TransformComponent>('Transform')!.translate(10, 0);
+    }
+  }
+}
+
+function setup(options: { fixedTimeStep?: number; maxSubSteps?: number } = {}) {
+  const engine = new HeadlessEngine(options);
+  const system = engine.world.addSystem(new RecordingSystem(engine.world)) as RecordingSystem;
+  return { engine, system };
+}
+
+describe('BaseEngine fixed time step', () => {
+  it('carries leftover frame time over to later frames', () => {
+    const { engine, system } = setup({ fixedTimeStep: 0.25 });
+
+    engine.tick(0.125);
+    expect(system.fixedUpdates).toEqual([]);
+
+    engine.tick(0.125);
+    expect(system.fixedUpdates).toEqual([0.25]);
+
+    engine.tick(0.625);
+    expect(system.fixedUpdates).toEqual([0.25, 0.25, 0.25]);
+    expect(system.updates).toEqual([0.125, 0.125, 0.625]);
+  });
+
+  it('runs at most maxSubSteps fixed steps and drops the backlog', () => {
+    const { engine, system } = setup({ fixedTimeStep: 0.25, maxSubSteps: 3 });
+    const steps: number[] = [];
+    engine.events.on('engine:fixedUpdate', event => steps.push(event.step));
+
+    engine.tick(2.125);
+    expect(steps).toEqual([0, 1, 2]);
+    expect(system.renders).toEqual([0.5]);
+
+    engine.tick(0);
+    expect(system.fixedUpdates).toHaveLength(3);
+  });
+
+  it('passes the leftover fraction of a step to render as alpha', () => {
+    const { engine, system } = setup({ fixedTimeStep: 0.25 });
+    const alphas: number[] = [];
+    engine.events.on('engine:postUpdate', event => alphas.push(event.alpha));
+
+    engine.tick(0.0625);
+    engine.tick(0.125);
+    engine.tick(0.0625);
+
+    expect(system.renders).toEqual([0.25, 0.75, 0]);
+    expect(alphas).toEqual(system.renders);
+  });
+
+  it('renders with an alpha of 1 and no fixed steps without a fixed time step', () => {
+    const { engine, system } = setup();
+
+    engine.tick(0.5);
+
+    expect(system.fixedUpdates).toEqual([]);
+    expect(system.renders).toEqual([1]);
+  });
+
+  it('interpolates graphics between the last two fixed steps', () => {
+    const engine = new HeadlessEngine({ fixedTimeStep: 0.25 });
+    engine.world.addSystem(new MoveSystem(engine.world));
+    engine.world.addSystem(new RenderSyncSystem(engine.world, undefined, { interpolate: true }));
+    const entity = engine.world.createEntity();
+    entity.addComponent(new TransformComponent());
+    const renderable = entity.addComponent(new RenderableComponent());
+
+    engine.tick(0.25);
+    engine.tick(0.25);
+    expect(renderable.graphics.position.x).toBe(10);
+
+    engine.tick(0.0625);
+    expect(renderable.graphics.position.x).toBe(12.5);
+
+    engine.tick(0.125);
+    expect(renderable.graphics.position.x).toBe(17.5);
+  });
+});
+
+describe('BaseEngine time control', () => {
+  it('only runs systems with runWhilePaused while paused, with real time', () => {
+    const { engine, system } = setup({ fixedTimeStep: 0.25 });
+    const ui = engine.world.addSystem(new RecordingSystem(engine.world)) as RecordingSystem;
+    ui.runWhilePaused = true;
+    engine.timeScale = 0.5;
+
+    engine.pause();
+    engine.tick(0.5);
+
+    expect(system.updates).toEqual([]);
+    expect(system.fixedUpdates).toEqual([]);
+    expect(system.renders).toHaveLength(1);
+    expect(ui.updates).toEqual([0.5]);
+    expect(ui.fixedUpdates).toEqual([]);
+
+    engine.resume();
+    engine.tick(0.5);
+
+    expect(system.updates).toEqual([0.25]);
+    expect(system.fixedUpdates).toEqual([0.25]);
+  });
+
+  it('scales simulation time by timeScale', () => {
+    const { engine, system } = setup({ fixedTimeStep: 0.25 });
+    const frames: Array<{ deltaTime: number; unscaledDeltaTime: number }> = [];
+    engine.events.on('engine:preUpdate', ({ deltaTime, unscaledDeltaTime }) => {
+      frames.push({ deltaTime, unscaledDeltaTime });
+    });
+
+    engine.timeScale = 0.5;
+    engine.tick(0.25);
+    engine.tick(0.25);
+    engine.timeScale = 2;
+    engine.tick(0.25);
+
+    expect(system.updates).toEqual([0.125, 0.125, 0.5]);
+    expect(system.fixedUpdates).toHaveLength(3);
+    expect(frames[0]).toEqual({ deltaTime: 0.125, unscaledDeltaTime: 0.25 });
+  });
+
+  it('steps exactly n frames and stays paused', () => {
+    const { engine, system } = setup({ fixedTimeStep: 0.25 });
+    engine.timeScale = 0.5;
+    engine.pause();
+
+    engine.step(3);
+
+    expect(system.updates).toEqual([0.25, 0.25, 0.25]);
+    expect(system.fixedUpdates).toEqual([0.25, 0.25, 0.25]);
+    expect(system.renders).toEqual([]);
+    expect(engine.isPaused()).toBe(true);
+
+    engine.tick(0.25);
+    expect(system.updates).toHaveLength(3);
+  });
+
+  it('steps by 1/60 s without a fixed time step and keeps running when not paused', () => {
+    const { engine, system } = setup();
+
+    engine.step();
+
+    expect(system.updates).toEqual([1 / 60]);
+    expect(engine.isPaused()).toBe(false);
+  });
+});
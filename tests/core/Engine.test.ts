@@ -0,0 +1,178 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Engine } from '../../src/core/Engine';
+import { createComponentType } from '../../src/ecs/Component';
+import type { SystemInterface } from '../../src/ecs/System';
+import { EventBus } from '../../src/events/EventBus';
+
+const Position = createComponentType('Position', () => ({ x: 0, y: 0 }));
+const Velocity = createComponentType('Velocity', () => ({ x: 0, y: 0 }));
+
+describe('Engine', () => {
+  it('creates entities with increasing ids starting at 1', () => {
+    const engine = new Engine();
+    expect(engine.addEntity()).toBe(1);
+    expect(engine.addEntity()).toBe(2);
+    expect(engine.getEntityCount()).toBe(2);
+  });
+
+  it('stores component values per type with defaults and initial values', () => {
+    const engine = new Engine();
+    const entity = engine.addEntity();
+
+    const position = engine.addComponent(entity, Position, { x: 5 });
+    expect(position).toEqual({ x: 5, y: 0 });
+    expect(engine.getComponent(entity, Position)).toBe(position);
+    expect(engine.hasComponent(entity, Velocity)).toBe(false);
+  });
+
+  it('keys stores by symbol, so types sharing a name stay separate', () => {
+    const engine = new Engine();
+    const Other = createComponentType('Position', () => ({ x: -1, y: -1 }));
+    const entity = engine.addEntity();
+
+    engine.addComponent(entity, Position);
+    expect(engine.hasComponent(entity, Other)).toBe(false);
+  });
+
+  it('throws when adding a component to a missing entity', () => {
+    const engine = new Engine();
+    expect(() => engine.addComponent(42, Position)).toThrow('Engine: Cannot add component "Position" to missing entity 42');
+  });
+
+  it('updates components in place and ignores missing ones', () => {
+    const engine = new Engine();
+    const entity = engine.addEntity();
+    engine.addComponent(entity, Position);
+
+    engine.updateComponent(entity, Position, position => {
+      position.x = 3;
+    });
+    engine.updateComponent(entity, Velocity, () => {
+      throw new Error('should not be called');
+    });
+
+    expect(engine.getComponent(entity, Position)!.x).toBe(3);
+  });
+
+  it('removes an entity together with its components', () => {
+    const engine = new Engine();
+    const entity = engine.addEntity();
+    engine.addComponent(entity, Position);
+
+    engine.removeEntity(entity);
+
+    expect(engine.hasEntity(entity)).toBe(false);
+    expect(engine.getComponent(entity, Position)).toBeUndefined();
+    expect(engine.getEntities([Position])).toEqual([]);
+  });
+
+  it('finds entities that have all requested components', () => {
+    const engine = new Engine();
+    const still = engine.addEntity();
+    const moving = engine.addEntity();
+    engine.addComponent(still, Position);
+    engine.addComponent(moving, Position);
+    engine.addComponent(moving, Velocity);
+
+    expect(engine.getEntities([Position])).toEqual([still, moving]);
+    expect(engine.getEntities([Position, Velocity])).toEqual([moving]);
+  });
+
+  it('skips entities removed while iterating', () => {
+    const engine = new Engine();
+    const first = engine.addEntity();
+    const second = engine.addEntity();
+    engine.addComponent(first, Position);
+    engine.addComponent(second, Position);
+
+    const visited: number[] = [];
+    engine.forEachEntity([Position], entity => {
+      visited.push(entity);
+      engine.removeEntity(second);
+    });
+
+    expect(visited).toEqual([first]);
+  });
+
+  it('runs systems by priority and passes the frame context', () => {
+    const engine = new Engine();
+    const calls: string[] = [];
+    engine.addSystem({ name: 'late', priority: 10, update: () => calls.push('late') });
+    engine.addSystem({
+      name: 'early',
+      priority: -1,
+      update: ({ delta, elapsed }) => calls.push(`early ${delta} ${elapsed}`),
+      render: () => calls.push('render'),
+    });
+
+    engine.tick(0.5);
+    engine.tick(0.5);
+
+    expect(calls).toEqual(['early 0.5 0.5', 'late', 'render', 'early 0.5 1', 'late', 'render']);
+    expect(engine.time).toBe(1);
+  });
+
+  it('moves entities with a movement system', () => {
+    const engine = new Engine();
+    engine.addSystem({
+      name: 'movement',
+      update({ engine: context, delta }) {
+        context.forEachEntity([Position, Velocity], entity => {
+          const velocity = context.getComponent(entity, Velocity)!;
+          context.updateComponent(entity, Position, position => {
+            position.x += velocity.x * delta;
+          });
+        });
+      },
+    });
+
+    const ship = engine.addEntity();
+    engine.addComponent(ship, Position);
+    engine.addComponent(ship, Velocity, { x: 10 });
+    engine.tick(0.1);
+
+    expect(engine.getComponent(ship, Position)!.x).toBeCloseTo(1);
+  });
+
+  it('rejects duplicate system names and calls onAttach', () => {
+    const engine = new Engine();
+    const system: SystemInterface = { name: 'physics', onAttach: vi.fn() };
+
+    engine.addSystem(system);
+
+    expect(system.onAttach).toHaveBeenCalledWith(engine);
+    expect(() => engine.addSystem({ name: 'physics' })).toThrow();
+    engine.removeSystem('physics');
+    expect(engine.getSystem('physics')).toBeUndefined();
+  });
+
+  it('flushes queued events after the update phase', () => {
+    const events = new EventBus();
+    const engine = new Engine({ events });
+    const order: string[] = [];
+    events.on('queued', () => order.push('event'));
+    engine.addSystem({
+      name: 'emitter',
+      update: () => {
+        events.enqueue('queued', null);
+        order.push('update');
+      },
+      render: () => order.push('render'),
+    });
+
+    engine.tick(1 / 60);
+
+    expect(order).toEqual(['update', 'event', 'render']);
+  });
+
+  it('clears all state', () => {
+    const engine = new Engine();
+    engine.addComponent(engine.addEntity(), Position);
+    engine.addSystem({ name: 'noop' });
+    engine.tick(1);
+
+    engine.clear();
+
+    expect(engine.getStats()).toEqual({ entities: 0, componentTypes: 0, systems: 0, time: 0 });
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import pkg from '../../package.json';
+import * as headless from '../../src/core/headless';
+import { HeadlessEngine } from '../../src/core/HeadlessEngine';
+
+// The headless entry must load without PixiJS
+vi.mock('pixi.js', () => {
+  throw new Error('pixi.js imported by the headless entry');
+});
+
+function countFrames(engine: HeadlessEngine): number[] {
+  const deltas: number[] = [];
+  engine.events.on('engine:preUpdate', event => deltas.push(event.deltaTime));
+  return deltas;
+}
+
+describe('HeadlessEngine', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('only runs frames on tick with the manual clock', () => {
+    vi.useFakeTimers();
+    const engine = new HeadlessEngine();
+    const deltas = countFrames(engine);
+
+    engine.start();
+    vi.advanceTimersByTime(1000);
+    expect(vi.getTimerCount()).toBe(0);
+    expect(deltas).toEqual([]);
+
+    engine.tick(0.5);
+    engine.tick(0.25);
+    expect(deltas).toEqual([0.5, 0.25]);
+    expect(engine.getTime()).toBe(750);
+  });
+
+  it('ticks without being started', () => {
+    const engine = new HeadlessEngine();
+    const deltas = countFrames(engine);
+
+    engine.tick(0.125);
+
+    expect(engine.isRunning()).toBe(false);
+    expect(deltas).toEqual([0.125]);
+  });
+
+  it('runs frames on a timer with the timer clock until stopped', () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'performance'] });
+    const engine = new HeadlessEngine({ clock: 'timer', tickRate: 4 });
+    const deltas = countFrames(engine);
+
+    engine.start();
+    expect(vi.getTimerCount()).toBe(1);
+
+    vi.advanceTimersByTime(750);
+    expect(deltas).toEqual([0.25, 0.25, 0.25]);
+    expect(engine.getTime()).toBe(750);
+
+    engine.stop();
+    expect(vi.getTimerCount()).toBe(0);
+
+    vi.advanceTimersByTime(1000);
+    expect(deltas).toHaveLength(3);
+  });
+
+  it('rejects a tick rate that is not positive', () => {
+    expect(() => new HeadlessEngine({ clock: 'timer', tickRate: 0 })).toThrow(
+      'HeadlessEngine: tickRate must be positive, got 0'
+    );
+  });
+
+  it('is exported from the headless entry', () => {
+    expect(pkg.exports['./headless']).toEqual({
+      import: './dist/core/headless.js',
+      types: './dist/core/headless.d.ts',
+    });
+    expect(headless.HeadlessEngine).toBe(HeadlessEngine);
+    expect(headless).not.toHaveProperty('WorldEngine');
+  });
+});
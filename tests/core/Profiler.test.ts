@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HeadlessEngine } from '../../src/core/HeadlessEngine';
+import { FrameProfiler } from '../../src/core/Profiler';
+import { Component } from '../../src/ecs/Component';
+import { System } from '../../src/ecs/System';
+import type { World } from '../../src/ecs/World';
+import { EventBus } from '../../src/events/EventBus';
+
+let now = 0;
+
+/** Advance the mocked clock by ms */
+function spend(ms: number): void {
+  now += ms;
+}
+
+class Busy extends Component {
+  getType(): string {
+    return 'Busy';
+  }
+}
+
+class BusySystem extends System {
+  constructor(world: World, private cost: number) {
+    super(world);
+  }
+
+  getRequiredComponents() {
+    return ['Busy'];
+  }
+
+  update(): void {
+    spend(this.cost);
+  }
+}
+
+describe('FrameProfiler', () => {
+  beforeEach(() => {
+    now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('times synchronous emits and queued events in the events section', () => {
+    const profiler = new FrameProfiler();
+    const bus = new EventBus();
+    bus.profiler = profiler;
+    bus.on('hit', () => spend(3));
+    bus.on('nested', () => bus.emit('hit', null));
+
+    profiler.beginFrame();
+    bus.emit('hit', null);
+    bus.emit('nested', null);
+    bus.enqueue('hit', null);
+    bus.flush();
+    profiler.endFrame();
+
+    // Nested emits are not counted twice
+    expect(profiler.getReport().events.last).toBe(9);
+  });
+
+  it('reports entity counts separately from times', () => {
+    const engine = new HeadlessEngine({ profile: true });
+    engine.world.addSystem(new BusySystem(engine.world, 2));
+    for (let i = 0; i < 3; i++) {
+      engine.world.createEntity().addComponent(new Busy());
+    }
+
+    engine.tick(1 / 60);
+    const [system] = engine.getProfile()!.systems;
+
+    expect(system!.update.last).toBe(2);
+    expect(system!.entities).toEqual({ average: 3, p95: 3, max: 3, last: 3 });
+  });
+
+  it('profiles step() frames and folds nested frames into the outer one', () => {
+    const engine = new HeadlessEngine({ profile: true });
+    engine.world.addSystem(new BusySystem(engine.world, 4));
+
+    engine.step(2);
+    expect(engine.getProfile()!.frames).toBe(2);
+    expect(engine.getProfile()!.frame.last).toBe(4);
+
+    engine.events.on('engine:preRender', () => engine.step());
+    engine.tick(1 / 60);
+
+    const report = engine.getProfile()!;
+    expect(report.frames).toBe(3);
+    expect(report.frame.last).toBe(8);
+    expect(report.update.last).toBe(8);
+  });
+
+  it('ignores unbalanced endFrame calls', () => {
+    const profiler = new FrameProfiler();
+
+    profiler.endFrame();
+    profiler.beginFrame();
+    profiler.endFrame();
+
+    expect(profiler.getReport().frames).toBe(1);
+  });
+});
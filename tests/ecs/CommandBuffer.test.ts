@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { Component, createComponentType } from '../../src/ecs/Component';
+import { System } from '../../src/ecs/System';
+import { World } from '../../src/ecs/World';
+
+class Health extends Component {
+  getType(): string {
+    return 'Health';
+  }
+}
+
+const Burning = createComponentType('Burning', () => ({ damage: 1 }));
+
+describe('CommandBuffer', () => {
+  it('runs commands in recording order on playback', () => {
+    const world = new World();
+    const entity = world.createEntity();
+    const health = new Health();
+
+    world.commands
+      .addComponent(entity, health)
+      .addData(entity, Burning, { damage: 3 })
+      .removeComponent(entity, 'Health');
+    expect(entity.hasComponent('Health')).toBe(false);
+    expect(world.commands.size).toBe(3);
+
+    world.commands.playback();
+
+    expect(entity.hasComponent('Health')).toBe(false);
+    expect(entity.getData(Burning)).toEqual({ damage: 3 });
+    expect(world.commands.size).toBe(0);
+  });
+
+  it('skips commands for entities destroyed before playback', () => {
+    const world = new World();
+    const entity = world.createEntity();
+
+    world.commands.destroy(entity).addData(entity, Burning);
+    world.commands.playback();
+
+    expect(entity.isDestroyed()).toBe(true);
+    expect(entity.hasData(Burning)).toBe(false);
+  });
+
+  it('skips commands whose entity id was reused', () => {
+    const world = new World();
+    const stale = world.createEntity();
+    world.commands.addData(stale, Burning);
+
+    world.removeEntity(stale);
+    const reused = world.createEntity();
+    world.commands.playback();
+
+    expect(reused.id).toBe(stale.id);
+    expect(reused.hasData(Burning)).toBe(false);
+  });
+
+  it('runs commands recorded during playback in the same playback', () => {
+    const world = new World();
+    const spawned: string[] = [];
+
+    world.commands.spawn(w => w.createEntity('first'), entity => {
+      spawned.push(entity.name);
+      world.commands.spawn(w => w.createEntity('second'), next => spawned.push(next.name));
+    });
+    world.commands.playback();
+
+    expect(spawned).toEqual(['first', 'second']);
+  });
+
+  it('plays back at the sync points between systems', () => {
+    const world = new World();
+    const target = world.createEntity();
+    const observed: boolean[] = [];
+
+    class Writer extends System {
+      getRequiredComponents() {
+        return [];
+      }
+
+      update(): void {
+        this._world.commands.addData(target, Burning);
+        observed.push(target.hasData(Burning));
+      }
+    }
+    class Reader extends System {
+      getRequiredComponents() {
+        return [];
+      }
+
+      update(): void {
+        observed.push(target.hasData(Burning));
+      }
+    }
+
+    world.addSystem(new Writer(world));
+    world.addSystem(new Reader(world));
+    world.update(1);
+
+    expect(observed).toEqual([false, true]);
+  });
+
+  it('lets later systems query entities spawned in the same frame', () => {
+    const world = new World();
+    const counts: number[] = [];
+
+    class Spawner extends System {
+      getRequiredComponents() {
+        return [];
+      }
+
+      update(): void {
+        this._world.commands.spawn(w => {
+          const entity = w.createEntity('spark');
+          entity.addComponent(new Health());
+          return entity;
+        });
+      }
+    }
+    class Counter extends System {
+      after = [Spawner];
+
+      getRequiredComponents() {
+        return ['Health'];
+      }
+
+      update(): void {
+        counts.push(this.getEntityCount());
+      }
+    }
+
+    world.addSystem(new Counter(world));
+    world.addSystem(new Spawner(world));
+    world.update(1);
+    world.update(1);
+
+    expect(counts).toEqual([1, 2]);
+  });
+
+  it('removes destroyed entities before the next system runs', () => {
+    const world = new World();
+    const target = world.createEntity();
+    target.addComponent(new Health());
+    let seen = -1;
+
+    class Destroyer extends System {
+      getRequiredComponents() {
+        return [];
+      }
+
+      update(): void {
+        this._world.commands.destroy(target);
+      }
+    }
+    class Reader extends System {
+      after = [Destroyer];
+
+      getRequiredComponents() {
+        return [];
+      }
+
+      update(): void {
+        seen = this._world.getStats().entities;
+      }
+    }
+
+    world.addSystem(new Reader(world));
+    world.addSystem(new Destroyer(world));
+    world.update(1);
+
+    expect(seen).toBe(0);
+    expect(world.getEntity(target.id)).toBeUndefined();
+  });
+
+  it('discards commands on clear', () => {
+    const world = new World();
+    const entity = world.createEntity();
+
+    world.commands.destroy(entity).clear();
+    world.commands.playback();
+
+    expect(entity.isDestroyed()).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { EntityIdAllocator } from '../../src/ecs/EntityIdAllocator';
+
+describe('EntityIdAllocator', () => {
+  it('allocates increasing ids and reuses released ones with a new generation', () => {
+    const ids = new EntityIdAllocator();
+    const first = ids.allocate();
+    const second = ids.allocate();
+
+    ids.release(first.id);
+    const reused = ids.allocate();
+
+    expect([first.id, second.id]).toEqual([0, 1]);
+    expect(reused).toEqual({ id: 0, generation: 1 });
+    expect(ids.isAlive(first)).toBe(false);
+    expect(ids.isAlive(reused)).toBe(true);
+    expect(ids.size).toBe(2);
+  });
+
+  it('reuses released ids oldest first', () => {
+    const ids = new EntityIdAllocator();
+    const handles = [ids.allocate(), ids.allocate(), ids.allocate()];
+
+    ids.release(handles[2]!.id);
+    ids.release(handles[0]!.id);
+
+    expect(ids.allocate().id).toBe(2);
+    expect(ids.allocate().id).toBe(0);
+    expect(ids.allocate().id).toBe(3);
+  });
+
+  it('claims large explicit ids without reserving the ids below them', () => {
+    const ids = new EntityIdAllocator();
+
+    const restored = ids.allocateId(1_000_000_000, 4);
+    const next = ids.allocate();
+
+    expect(restored).toEqual({ id: 1_000_000_000, generation: 4 });
+    expect(next.id).toBe(0);
+    expect(ids.size).toBe(2);
+  });
+
+  it('skips explicitly claimed ids when allocating', () => {
+    const ids = new EntityIdAllocator();
+    ids.allocateId(1);
+    ids.allocateId(2);
+    ids.release(2);
+
+    expect(ids.allocate().id).toBe(2);
+    expect(ids.allocate().id).toBe(0);
+    expect(ids.allocate().id).toBe(3);
+  });
+
+  it('claims a released id with its current generation', () => {
+    const ids = new EntityIdAllocator();
+    const handle = ids.allocate();
+    ids.release(handle.id);
+
+    expect(ids.allocateId(handle.id)).toEqual({ id: 0, generation: 1 });
+    expect(ids.allocate().id).toBe(1);
+  });
+
+  it('rejects invalid and taken explicit ids', () => {
+    const ids = new EntityIdAllocator();
+    ids.allocateId(3);
+
+    expect(() => ids.allocateId(3)).toThrow('already in use');
+    expect(() => ids.allocateId(-1)).toThrow('Invalid entity id');
+    expect(() => ids.allocateId(1.5)).toThrow('Invalid entity id');
+    expect(() => ids.allocateId(Number.MAX_SAFE_INTEGER + 1)).toThrow('Invalid entity id');
+    expect(() => ids.allocateId(4, -2)).toThrow('Invalid generation');
+  });
+
+  it('keeps handles stale across clear', () => {
+    const ids = new EntityIdAllocator();
+    const handle = ids.allocate();
+
+    ids.clear();
+
+    expect(ids.size).toBe(0);
+    expect(ids.isAlive(handle)).toBe(false);
+    expect(ids.allocate()).toEqual({ id: 0, generation: 1 });
+  });
+});
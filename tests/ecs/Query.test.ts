@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { Component, createComponentType } from '../../src/ecs/Component';
+import { Query } from '../../src/ecs/Query';
+import { World } from '../../src/ecs/World';
+
+class Sprite extends Component {
+  getType(): string {
+    return 'Sprite';
+  }
+}
+
+class Position extends Component {
+  getType(): string {
+    return 'Position';
+  }
+}
+
+const Velocity = createComponentType('Velocity', () => ({ x: 0, y: 0 }));
+
+describe('Query', () => {
+  it('builds order independent keys', () => {
+    expect(Query.getKey(['Sprite', 'Position'])).toBe(Query.getKey(['Position', 'Sprite', 'Sprite']));
+  });
+
+  it('tells data component types with the same name apart', () => {
+    const Other = createComponentType('Velocity', () => ({ x: 0, y: 0 }));
+
+    expect(Query.getKey(['Sprite', Velocity])).toBe(Query.getKey([Velocity, 'Sprite']));
+    expect(Query.getKey([Velocity])).not.toBe(Query.getKey([Other]));
+  });
+
+  it('is shared per signature', () => {
+    const world = new World();
+
+    expect(world.query(['Sprite', 'Position'])).toBe(world.query(['Position', 'Sprite']));
+  });
+
+  it('tracks component additions and removals', () => {
+    const world = new World();
+    const query = world.query(['Sprite', 'Position']);
+    const entity = world.createEntity();
+
+    const sprite = entity.addComponent(new Sprite());
+    expect(query.has(entity)).toBe(false);
+
+    entity.addComponent(new Position());
+    expect(query.getEntities()).toEqual([entity]);
+    expect(query.first()).toBe(entity);
+
+    entity.removeComponent(sprite);
+    expect(query.size).toBe(0);
+  });
+
+  it('tracks data component additions and removals', () => {
+    const world = new World();
+    const query = world.query(['Sprite', Velocity]);
+    const entity = world.createEntity();
+    entity.addComponent(new Sprite());
+
+    entity.addData(Velocity, { x: 1 });
+    expect(query.getEntities()).toEqual([entity]);
+
+    entity.removeData(Velocity);
+    expect(query.size).toBe(0);
+  });
+
+  it('includes entities that matched before the query was created', () => {
+    const world = new World();
+    const entity = world.createEntity();
+    entity.addComponent(new Position());
+
+    expect(world.query(['Position']).getEntities()).toEqual([entity]);
+  });
+
+  it('excludes inactive entities and descendants of inactive entities', () => {
+    const world = new World();
+    const query = world.query(['Position']);
+    const parent = world.createEntity('parent');
+    const child = world.createEntity('child');
+    parent.addComponent(new Position());
+    child.addComponent(new Position());
+    child.setParent(parent);
+
+    parent.active = false;
+    expect(query.getEntities()).toEqual([]);
+
+    parent.active = true;
+    expect(query.getEntities()).toEqual([parent, child]);
+
+    child.setParent(null);
+    child.active = false;
+    expect(query.getEntities()).toEqual([parent]);
+  });
+
+  it('drops removed entities', () => {
+    const world = new World();
+    const query = world.query(['Position']);
+    const entity = world.createEntity();
+    entity.addComponent(new Position());
+
+    world.removeEntity(entity);
+
+    expect(query.size).toBe(0);
+  });
+
+  it('lets forEach callbacks modify the world', () => {
+    const world = new World();
+    const query = world.query(['Position']);
+    for (let i = 0; i < 3; i++) {
+      world.createEntity().addComponent(new Position());
+    }
+
+    let visited = 0;
+    query.forEach(entity => {
+      visited++;
+      entity.removeComponentsByType('Position');
+    });
+
+    expect(visited).toBe(3);
+    expect(query.size).toBe(0);
+  });
+});
@@ -0,0 +1,459 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Component, createComponentType } from '../../src/ecs/Component';
+import { Entity } from '../../src/ecs/Entity';
+import { System } from '../../src/ecs/System';
+import { World } from '../../src/ecs/World';
+
+class Health extends Component {
+  constructor(public current: number = 10) {
+    super();
+  }
+
+  getType(): string {
+    return 'Health';
+  }
+}
+
+class Tag extends Component {
+  getType(): string {
+    return 'Tag';
+  }
+}
+
+const Velocity = createComponentType('Velocity', () => ({ x: 0, y: 0 }));
+
+class RecordingSystem extends System {
+  public seen: number[][] = [];
+
+  getRequiredComponents() {
+    return ['Health'];
+  }
+
+  update(): void {
+    this.seen.push(this.getEntities().map(entity => entity.id));
+  }
+}
+
+describe('World', () => {
+  describe('entities', () => {
+    it('assigns ids on add and looks entities up by id', () => {
+      const world = new World();
+      const a = world.createEntity('a');
+      const b = world.createEntity('b');
+
+      expect(a.id).not.toBe(b.id);
+      expect(world.getEntity(a.id)).toBe(a);
+      expect(a.getWorld()).toBe(world);
+      expect(world.getStats()).toEqual({ entities: 2, activeEntities: 2, systems: 0 });
+    });
+
+    it('recycles ids with a new generation so stale handles die', () => {
+      const world = new World();
+      const first = world.createEntity();
+      const handle = first.getHandle();
+
+      world.removeEntity(first);
+      const second = world.createEntity();
+
+      expect(second.id).toBe(handle.id);
+      expect(second.generation).toBe(handle.generation + 1);
+      expect(world.isAlive(handle)).toBe(false);
+      expect(world.resolve(handle)).toBeUndefined();
+      expect(world.resolve(second.getHandle())).toBe(second);
+    });
+
+    it('restores an explicit id and generation', () => {
+      const world = new World();
+      const entity = world.createEntity('saved', { id: 7, generation: 3 });
+
+      expect(entity.getHandle()).toEqual({ id: 7, generation: 3 });
+      expect(() => world.createEntity('clash', { id: 7 })).toThrow();
+    });
+
+    it('allocates component ids per world when components join it', () => {
+      const detached = new Entity();
+      const early = detached.addComponent(new Health());
+      expect(early.id).toBe(-1);
+
+      const world = new World();
+      world.addEntity(detached);
+      const late = world.createEntity().addComponent(new Health());
+      const other = new World().createEntity().addComponent(new Health());
+
+      expect([early.id, late.id, other.id]).toEqual([0, 1, 0]);
+    });
+
+    it('removes children with their parent', () => {
+      const world = new World();
+      const parent = world.createEntity('parent');
+      const child = world.createEntity('child');
+      child.setParent(parent);
+
+      world.removeEntity(parent);
+
+      expect(world.getEntity(child.id)).toBeUndefined();
+      expect(child.isDestroyed()).toBe(true);
+    });
+
+    it('adds descendants parented before their parent joined the world', () => {
+      const world = new World();
+      const parent = new Entity('parent');
+      const child = new Entity('child');
+      const grandchild = new Entity('grandchild');
+      child.setParent(parent);
+      grandchild.setParent(child);
+      grandchild.addComponent(new Health());
+
+      world.addEntity(parent);
+
+      expect(child.getWorld()).toBe(world);
+      expect(world.getEntity(grandchild.id)).toBe(grandchild);
+      expect(world.query(['Health']).getEntities()).toEqual([grandchild]);
+    });
+
+    it('adds an entity parented to an entity of the world', () => {
+      const world = new World();
+      const parent = world.createEntity('parent');
+      const child = new Entity('child');
+      const grandchild = new Entity('grandchild');
+      grandchild.setParent(child);
+      child.addComponent(new Health());
+
+      child.setParent(parent);
+
+      expect(world.getEntity(child.id)).toBe(child);
+      expect(world.getEntity(grandchild.id)).toBe(grandchild);
+      expect(world.query(['Health']).getEntities()).toEqual([child]);
+
+      world.removeEntity(parent);
+      expect(grandchild.isDestroyed()).toBe(true);
+    });
+
+    it('lists root entities and traverses depth first', () => {
+      const world = new World();
+      const root = world.createEntity('root');
+      const child = world.createEntity('child');
+      const other = world.createEntity('other');
+      child.setParent(root);
+
+      const names: string[] = [];
+      world.traverse(entity => {
+        names.push(entity.name);
+      });
+
+      expect(world.getRootEntities()).toEqual([root, other]);
+      expect(names).toEqual(['root', 'child', 'other']);
+    });
+
+    it('keeps the root entities up to date', () => {
+      const world = new World();
+      const parent = world.createEntity('parent');
+      const child = world.createEntity('child');
+      const other = world.createEntity('other');
+
+      child.setParent(parent);
+      expect(world.getRootEntities()).toEqual([parent, other]);
+
+      other.active = false;
+      child.setParent(null);
+      expect(world.getRootEntities()).toEqual([parent, child]);
+
+      world.removeEntity(parent);
+      world.removeEntity(other);
+      expect(world.getRootEntities()).toEqual([child]);
+    });
+  });
+
+  describe('systems', () => {
+    it('applies additions and removals made by a system at the next sync point', () => {
+      const world = new World();
+      const kept = world.createEntity();
+      kept.addComponent(new Health());
+      const removed = world.createEntity();
+      removed.addComponent(new Health());
+
+      let added: Entity | null = null;
+      class MutatingSystem extends System {
+        getRequiredComponents() {
+          return ['Health'];
+        }
+
+        update(): void {
+          if (!added) {
+            added = this._world.createEntity();
+            added.addComponent(new Health());
+            this._world.removeEntity(removed);
+          }
+        }
+      }
+
+      world.addSystem(new MutatingSystem(world));
+      const recorder = world.addSystem(new RecordingSystem(world)) as RecordingSystem;
+      world.update(1 / 60);
+      world.update(1 / 60);
+
+      // Both changes are applied at the sync point before the next system
+      expect(recorder.seen[0]).toEqual([kept.id, added!.id]);
+      expect(recorder.seen[1]).toEqual([kept.id, added!.id]);
+      expect(world.getEntity(removed.id)).toBeUndefined();
+    });
+
+    it('stops deferring changes after a system throws', () => {
+      const world = new World();
+      class ThrowingSystem extends System {
+        getRequiredComponents() {
+          return [];
+        }
+
+        update(): void {
+          throw new Error('boom');
+        }
+      }
+      const throwing = world.addSystem(new ThrowingSystem(world));
+
+      expect(() => world.update(1 / 60)).toThrow('boom');
+
+      const entity = world.createEntity();
+      expect(world.getEntity(entity.id)).toBe(entity);
+      world.removeEntity(entity);
+      expect(world.getStats().entities).toBe(0);
+
+      world.removeSystem(throwing);
+      expect(() => world.update(1 / 60)).not.toThrow();
+    });
+
+    it('orders systems by phase, constraints and priority', () => {
+      const world = new World();
+      const order: string[] = [];
+
+      class Named extends System {
+        constructor(world: World, private label: string) {
+          super(world);
+        }
+
+        getRequiredComponents() {
+          return [];
+        }
+
+        update(): void {
+          order.push(this.label);
+        }
+      }
+      class Physics extends Named {}
+      class Collisions extends Named {}
+
+      const late = world.addSystem(new Named(world, 'late'));
+      late.priority = 5;
+      const input = world.addSystem(new Named(world, 'input'));
+      input.phase = 'input';
+      const collisions = world.addSystem(new Collisions(world, 'collisions'));
+      collisions.after = [Physics];
+      world.addSystem(new Physics(world, 'physics'));
+
+      world.update(1);
+
+      expect(order).toEqual(['input', 'physics', 'collisions', 'late']);
+    });
+
+    it('accepts ordering fields declared by subclasses', () => {
+      const world = new World();
+      const order: string[] = [];
+
+      class Late extends System {
+        priority = 10;
+        phase = 'postUpdate' as const;
+
+        getRequiredComponents() {
+          return [];
+        }
+
+        update(): void {
+          order.push('late');
+        }
+      }
+      class Early extends System {
+        priority = -10;
+
+        getRequiredComponents() {
+          return [];
+        }
+
+        update(): void {
+          order.push('early');
+        }
+      }
+
+      world.addSystem(new Late(world));
+      world.addSystem(new Early(world));
+      world.update(1);
+
+      expect(order).toEqual(['early', 'late']);
+    });
+
+    it('reschedules when ordering fields change after registration', () => {
+      const world = new World();
+      const order: string[] = [];
+
+      class Named extends System {
+        constructor(world: World, private label: string) {
+          super(world);
+        }
+
+        getRequiredComponents() {
+          return [];
+        }
+
+        update(): void {
+          order.push(this.label);
+        }
+      }
+      class First extends Named {}
+      class Second extends Named {}
+
+      const first = world.addSystem(new First(world, 'first'));
+      const second = world.addSystem(new Second(world, 'second'));
+      const run = () => {
+        order.length = 0;
+        world.update(1);
+        return [...order];
+      };
+
+      expect(run()).toEqual(['first', 'second']);
+
+      second.before.push(First);
+      expect(run()).toEqual(['second', 'first']);
+
+      second.before = [];
+      first.after = [Second];
+      expect(run()).toEqual(['second', 'first']);
+
+      first.after.length = 0;
+      first.priority = 1;
+      expect(run()).toEqual(['second', 'first']);
+
+      first.phase = 'preUpdate';
+      expect(run()).toEqual(['first', 'second']);
+
+      expect(world.getSystemsInGroup('physics')).toEqual([]);
+      second.group = 'physics';
+      expect(world.getSystemsInGroup('physics')).toEqual([second]);
+    });
+
+    it('throws on circular constraints and leaves the system out', () => {
+      const world = new World();
+      class A extends System {
+        getRequiredComponents() {
+          return [];
+        }
+      }
+      class B extends A {}
+
+      const a = world.addSystem(new A(world));
+      a.before = [B];
+      const b = new B(world);
+      b.before = [A];
+
+      expect(() => world.addSystem(b)).toThrow('Circular');
+      expect(world.getAllSystems()).toEqual([a]);
+    });
+
+    it('skips paused systems unless they run while paused', () => {
+      const world = new World();
+      const recorder = world.addSystem(new RecordingSystem(world)) as RecordingSystem;
+      const ui = world.addSystem(new RecordingSystem(world)) as RecordingSystem;
+      ui.runWhilePaused = true;
+
+      world.paused = true;
+      world.update(1);
+
+      expect(recorder.seen).toHaveLength(0);
+      expect(ui.seen).toHaveLength(1);
+    });
+
+    it('skips systems of disabled groups', () => {
+      const world = new World();
+      const recorder = world.addSystem(new RecordingSystem(world)) as RecordingSystem;
+      recorder.group = 'debug';
+
+      world.setGroupEnabled('debug', false);
+      world.update(1);
+      world.setGroupEnabled('debug', true);
+      world.update(1);
+
+      expect(recorder.seen).toHaveLength(1);
+      expect(world.getSystemsInGroup('debug')).toEqual([recorder]);
+    });
+  });
+
+  describe('component listeners', () => {
+    it('notifies typed and untyped listeners and supports unsubscribing', () => {
+      const world = new World();
+      const typed = vi.fn();
+      const untyped = vi.fn();
+      const unsubscribe = world.onComponentAdded('Health', typed);
+      world.onComponentAdded(untyped);
+
+      const entity = world.createEntity();
+      const health = entity.addComponent(new Health());
+      entity.addComponent(new Tag());
+      unsubscribe();
+      entity.addComponent(new Health());
+
+      expect(typed).toHaveBeenCalledTimes(1);
+      expect(typed).toHaveBeenCalledWith(entity, health);
+      expect(untyped).toHaveBeenCalledTimes(3);
+    });
+
+    it('notifies removal listeners when an entity is destroyed', () => {
+      const world = new World();
+      const removed = vi.fn();
+      world.onComponentRemoved('Health', removed);
+      const entity = world.createEntity();
+      entity.addComponent(new Health());
+
+      world.removeEntity(entity);
+
+      expect(removed).toHaveBeenCalledTimes(1);
+    });
+
+    it('notifies listeners of data components', () => {
+      const world = new World();
+      const added = vi.fn();
+      const removed = vi.fn();
+      const untyped = vi.fn();
+      world.onComponentAdded(Velocity, added);
+      world.onComponentRemoved(Velocity, removed);
+      world.onComponentAdded(untyped);
+
+      const detached = new Entity();
+      const early = detached.addData(Velocity, { x: 1 });
+      world.addEntity(detached);
+      const entity = world.createEntity();
+      const first = entity.addData(Velocity, { x: 2 });
+      const second = entity.addData(Velocity, { x: 3 });
+      entity.removeData(Velocity);
+      entity.removeData(Velocity);
+      entity.addData(Velocity);
+      entity.destroy();
+
+      expect(added.mock.calls).toEqual([
+        [detached, early],
+        [entity, first],
+        [entity, second],
+        [entity, { x: 0, y: 0 }],
+      ]);
+      expect(removed.mock.calls).toEqual([[entity, second], [entity, { x: 0, y: 0 }]]);
+      expect(untyped).not.toHaveBeenCalled();
+    });
+  });
+
+  it('matches data components in mixed signatures', () => {
+    const world = new World();
+    const moving = world.createEntity();
+    moving.addComponent(new Health());
+    moving.addData(Velocity, { x: 1 });
+    world.createEntity().addComponent(new Health());
+
+    expect(world.getEntitiesWithComponents(['Health', Velocity])).toEqual([moving]);
+  });
+});
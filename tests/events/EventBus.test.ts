@@ -0,0 +1,259 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EventBus, EventEmitter } from '../../src/events/EventBus';
+
+interface TestEvents {
+  'wave:started': { wave: number };
+  'wave:ended': { wave: number };
+  'tower:placed': { x: number };
+}
+
+describe('EventBus', () => {
+  it('delivers payloads to listeners in priority then registration order', () => {
+    const bus = new EventBus<TestEvents>();
+    const calls: string[] = [];
+    bus.on('wave:started', () => calls.push('first'));
+    bus.on('wave:started', () => calls.push('urgent'), { priority: 10 });
+    bus.on('wave:started', ({ wave }) => calls.push(`second ${wave}`));
+
+    bus.emit('wave:started', { wave: 2 });
+
+    expect(calls).toEqual(['urgent', 'first', 'second 2']);
+  });
+
+  it('ignores duplicate subscriptions of the same listener', () => {
+    const bus = new EventBus<TestEvents>();
+    const listener = vi.fn();
+    bus.on('wave:started', listener);
+    bus.on('wave:started', listener);
+
+    bus.emit('wave:started', { wave: 1 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(bus.getListenerCount('wave:started')).toBe(1);
+  });
+
+  it('takes the once option of a repeated subscription', () => {
+    const bus = new EventBus<TestEvents>();
+    const persistent = vi.fn();
+    const single = vi.fn();
+    bus.on('wave:started', persistent);
+    bus.once('wave:started', persistent);
+    bus.once('wave:started', single);
+    bus.on('wave:started', single);
+
+    bus.emit('wave:started', { wave: 1 });
+    bus.emit('wave:started', { wave: 2 });
+
+    expect(persistent).toHaveBeenCalledTimes(1);
+    expect(single).toHaveBeenCalledTimes(2);
+    expect(bus.getListenerCount('wave:started')).toBe(1);
+  });
+
+  it('accepts explicit payload types for untyped events', () => {
+    const bus = new EventBus();
+    const received: number[] = [];
+    const listener = ({ wave }: { wave: number }) => received.push(wave);
+    bus.on<{ wave: number }>('wave:started', listener);
+
+    bus.emit<{ wave: number }>('wave:started', { wave: 3 });
+    bus.off<{ wave: number }>('wave:started', listener);
+    bus.emit('wave:started', { wave: 4 });
+
+    expect(received).toEqual([3]);
+  });
+
+  it('unsubscribes through the returned function, off and once', () => {
+    const bus = new EventBus<TestEvents>();
+    const unsubscribed = vi.fn();
+    const removed = vi.fn();
+    const single = vi.fn();
+    bus.on('wave:started', unsubscribed)();
+    bus.on('wave:started', removed);
+    bus.off('wave:started', removed);
+    bus.once('wave:started', single);
+
+    bus.emit('wave:started', { wave: 1 });
+    bus.emit('wave:started', { wave: 2 });
+
+    expect(unsubscribed).not.toHaveBeenCalled();
+    expect(removed).not.toHaveBeenCalled();
+    expect(single).toHaveBeenCalledTimes(1);
+    expect(bus.hasListeners('wave:started')).toBe(false);
+  });
+
+  it('dispatches from a snapshot', () => {
+    const bus = new EventBus<TestEvents>();
+    const late = vi.fn();
+    const skipped = vi.fn();
+    bus.on('wave:started', () => {
+      bus.on('wave:started', late);
+      bus.off('wave:started', skipped);
+    });
+    bus.on('wave:started', skipped);
+
+    bus.emit('wave:started', { wave: 1 });
+    expect(late).not.toHaveBeenCalled();
+    expect(skipped).not.toHaveBeenCalled();
+
+    bus.emit('wave:started', { wave: 2 });
+    expect(late).toHaveBeenCalledTimes(1);
+  });
+
+  it('matches single segment and catch-all patterns', () => {
+    const bus = new EventBus<TestEvents>();
+    const waves: string[] = [];
+    const all: string[] = [];
+    bus.on('wave:*', (_payload, event) => waves.push(event));
+    bus.on('**', (_payload, event) => all.push(event));
+
+    bus.emit('wave:started', { wave: 1 });
+    bus.emit('tower:placed', { x: 0 });
+    bus.emit('wave:ended', { wave: 1 });
+
+    expect(waves).toEqual(['wave:started', 'wave:ended']);
+    expect(all).toEqual(['wave:started', 'tower:placed', 'wave:ended']);
+    expect(bus.getEventNames()).toEqual([]);
+  });
+
+  it('interleaves pattern and exact listeners by priority', () => {
+    const bus = new EventBus<TestEvents>();
+    const calls: string[] = [];
+    bus.on('wave:started', () => calls.push('exact'));
+    bus.on('wave:*', () => calls.push('pattern'), { priority: 1 });
+
+    bus.emit('wave:started', { wave: 1 });
+
+    expect(calls).toEqual(['pattern', 'exact']);
+  });
+
+  it('isolates listener errors and reports them to the error handler', () => {
+    const onError = vi.fn();
+    const bus = new EventBus<TestEvents>({ onError });
+    const after = vi.fn();
+    const failure = new Error('boom');
+    bus.on('wave:started', () => {
+      throw failure;
+    });
+    bus.on('wave:started', after);
+
+    bus.emit('wave:started', { wave: 1 });
+
+    expect(onError).toHaveBeenCalledWith(failure, 'wave:started', expect.any(Function));
+    expect(after).toHaveBeenCalled();
+  });
+
+  it('delivers queued events on flush, in order', () => {
+    const bus = new EventBus<TestEvents>();
+    const received: number[] = [];
+    bus.on('wave:started', ({ wave }) => received.push(wave));
+
+    bus.enqueue('wave:started', { wave: 1 });
+    bus.enqueue('wave:started', { wave: 2 });
+    expect(received).toEqual([]);
+    expect(bus.getQueuedCount()).toBe(2);
+
+    expect(bus.flush()).toBe(2);
+    expect(received).toEqual([1, 2]);
+  });
+
+  it('coalesces queued events when asked', () => {
+    const bus = new EventBus<TestEvents>();
+    const received: number[] = [];
+    bus.on('wave:started', ({ wave }) => received.push(wave));
+
+    bus.enqueue('wave:started', { wave: 1 }, { coalesce: true });
+    bus.enqueue('wave:started', { wave: 2 }, { coalesce: true });
+    bus.flush();
+
+    expect(received).toEqual([2]);
+  });
+
+  it('stops flushing after the maximum number of passes', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const bus = new EventBus<TestEvents>({ maxFlushPasses: 3 });
+    bus.on('wave:started', ({ wave }) => bus.enqueue('wave:started', { wave: wave + 1 }));
+
+    bus.enqueue('wave:started', { wave: 1 });
+
+    expect(bus.flush()).toBe(3);
+    expect(bus.getQueuedCount()).toBe(1);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('clears listeners and queued events', () => {
+    const bus = new EventBus<TestEvents>();
+    const listener = vi.fn();
+    bus.on('wave:started', listener);
+    bus.on('wave:*', listener);
+    bus.enqueue('wave:started', { wave: 1 });
+
+    bus.clear();
+    bus.flush();
+    bus.emit('wave:started', { wave: 2 });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(bus.getQueuedCount()).toBe(0);
+  });
+
+  it('keeps the pattern match cache bounded', () => {
+    const bus = new EventBus();
+    const listener = vi.fn();
+    bus.on('entity:*', listener);
+
+    for (let i = 0; i < 2000; i++) {
+      bus.emit(`entity:${i}`, null);
+    }
+    bus.emit('entity:0', null);
+
+    expect(listener).toHaveBeenCalledTimes(2001);
+    expect((bus as unknown as { patternMatches: Map<string, string[]> }).patternMatches.size).toBeLessThanOrEqual(512);
+  });
+});
+
+describe('EventEmitter', () => {
+  it('calls a callback once per registration', () => {
+    const emitter = new EventEmitter();
+    const callback = vi.fn();
+    emitter.on('tick', callback);
+    emitter.on('tick', callback);
+
+    emitter.emit('tick', 1);
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(emitter.listenerCount('tick')).toBe(2);
+  });
+
+  it('treats names containing * literally', () => {
+    const emitter = new EventEmitter();
+    const callback = vi.fn();
+    emitter.on('unit:*', callback);
+
+    emitter.emit('unit:spawned');
+    emitter.emit('unit:*');
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(emitter.eventNames()).toEqual(['unit:*']);
+  });
+
+  it('removes once callbacks after the first emit', () => {
+    const emitter = new EventEmitter();
+    const callback = vi.fn();
+    emitter.once('tick', callback);
+
+    emitter.emit('tick');
+    emitter.emit('tick');
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(emitter.eventNames()).toEqual([]);
+  });
+
+  it('lets listener exceptions propagate', () => {
+    const emitter = new EventEmitter();
+    emitter.on('tick', () => {
+      throw new Error('boom');
+    });
+
+    expect(() => emitter.emit('tick')).toThrow('boom');
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ActionMap } from '../../src/input/ActionMap';
+import { InputManager } from '../../src/input/InputManager';
+
+function setup() {
+  const input = new InputManager({ getGamepads: () => [] });
+  const actions = new ActionMap(input);
+
+  /** Apply key changes ('+KeyW' presses, '-KeyW' releases) and run a frame */
+  const frame = (...keys: string[]) => {
+    for (const key of keys) {
+      input.inject([key[0] === '+' ? '+' : '-', key.slice(1)]);
+    }
+    input.beginFrame();
+  };
+
+  return { input, actions, frame };
+}
+
+describe('ActionMap', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets a chord take precedence over a plain binding of the same key', () => {
+    const { actions, frame } = setup();
+    actions
+      .defineAction('moveDown', [{ device: 'key', code: 'KeyS' }])
+      .defineAction('save', [{ device: 'key', code: 'KeyS', modifiers: ['Control'] }]);
+
+    frame('+KeyS');
+    expect(actions.isPressed('moveDown')).toBe(true);
+    expect(actions.isPressed('save')).toBe(false);
+
+    frame('+ControlLeft');
+    expect(actions.isPressed('moveDown')).toBe(false);
+    expect(actions.isJustReleased('moveDown')).toBe(true);
+    expect(actions.isJustPressed('save')).toBe(true);
+
+    frame('-ControlLeft');
+    expect(actions.isJustPressed('moveDown')).toBe(true);
+    expect(actions.isJustReleased('save')).toBe(true);
+  });
+
+  it('normalizes composite vectors on diagonals', () => {
+    const { actions, frame } = setup();
+    actions.defineVector('move', [{
+      type: 'composite',
+      up: { device: 'key', code: 'KeyW' },
+      down: { device: 'key', code: 'KeyS' },
+      left: { device: 'key', code: 'KeyA' },
+      right: { device: 'key', code: 'KeyD' },
+    }]);
+
+    frame('+KeyD');
+    expect(actions.getVector('move')).toEqual({ x: 1, y: 0 });
+
+    frame('+KeyW');
+    const diagonal = actions.getVector('move');
+    expect(diagonal.x).toBeCloseTo(Math.SQRT1_2);
+    expect(diagonal.y).toBeCloseTo(-Math.SQRT1_2);
+
+    frame('+KeyS');
+    expect(actions.getVector('move')).toEqual({ x: 1, y: 0 });
+  });
+
+  it('loads its own JSON output back', () => {
+    const { input, actions, frame } = setup();
+    actions
+      .defineAction('save', [{ device: 'key', code: 'KeyS', modifiers: ['Control'] }])
+      .defineAxis('turn', [{ type: 'composite', negative: { device: 'key', code: 'KeyQ' }, positive: { device: 'key', code: 'KeyE' } }])
+      .defineVector('look', [{ type: 'stick', stick: 'right' }]);
+
+    const json = JSON.stringify(actions.toJSON());
+    const restored = ActionMap.fromJSON(input, json);
+
+    expect(restored.toJSON()).toEqual(actions.toJSON());
+    expect(restored.getNames()).toEqual({ actions: ['save'], axes: ['turn'], vectors: ['look'] });
+
+    frame('+ControlRight', '+KeyS', '+KeyE');
+    expect(restored.isPressed('save')).toBe(true);
+    expect(restored.getAxis('turn')).toBe(1);
+  });
+
+  it('resolves a rebind with the captured input and clears its timer', async () => {
+    vi.useFakeTimers();
+    const { actions, frame } = setup();
+    actions.defineAction('jump', [{ device: 'key', code: 'Space' }]);
+
+    const result = actions.rebind('jump', { index: 0, timeout: 5000 });
+    expect(actions.isRebinding()).toBe(true);
+    expect(vi.getTimerCount()).toBe(1);
+
+    frame('+ShiftLeft');
+    frame('+KeyJ');
+
+    await expect(result).resolves.toEqual({ device: 'key', code: 'KeyJ', modifiers: ['Shift'] });
+    expect(actions.getBindings('jump')).toEqual([{ device: 'key', code: 'KeyJ', modifiers: ['Shift'] }]);
+    expect(actions.isRebinding()).toBe(false);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('resolves a rebind with null on timeout or cancel and keeps the bindings', async () => {
+    vi.useFakeTimers();
+    const { actions, frame } = setup();
+    actions.defineAction('jump', [{ device: 'key', code: 'Space' }]);
+
+    const timedOut = actions.rebind('jump', { timeout: 1000 });
+    vi.advanceTimersByTime(1000);
+    await expect(timedOut).resolves.toBeNull();
+    expect(actions.isRebinding()).toBe(false);
+
+    const cancelled = actions.rebind('jump', { timeout: 1000 });
+    frame('+Escape');
+    await expect(cancelled).resolves.toBeNull();
+    expect(vi.getTimerCount()).toBe(0);
+
+    const stopped = actions.rebind('jump', { timeout: 1000 });
+    actions.cancelRebind();
+    await expect(stopped).resolves.toBeNull();
+    expect(vi.getTimerCount()).toBe(0);
+
+    expect(actions.getBindings('jump')).toEqual([{ device: 'key', code: 'Space' }]);
+  });
+});
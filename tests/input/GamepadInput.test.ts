@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EventBus } from '../../src/events/EventBus';
+import { GamepadAxis, GamepadButton, GamepadInput, type GamepadEvents, type GamepadLike } from '../../src/input/GamepadInput';
+
+function createPad(mapping: string, pressed: number[] = [], axes: number[] = [0, 0, 0, 0]): GamepadLike {
+  const buttons = Array.from({ length: 17 }, (_, i) => ({
+    pressed: pressed.includes(i),
+    value: pressed.includes(i) ? 1 : 0,
+  }));
+  return { index: 0, id: 'Test pad', connected: true, mapping, buttons, axes };
+}
+
+describe('GamepadInput', () => {
+  it('reads buttons and axes of standard pads', () => {
+    let pad = createPad('standard');
+    const input = new GamepadInput({ getGamepads: () => [pad], deadzone: 0.1 });
+
+    input.poll();
+    pad = createPad('standard', [GamepadButton.A], [1, 0.05, 0, 0]);
+    input.poll();
+
+    expect(input.isStandardMapping()).toBe(true);
+    expect(input.isButtonPressed(GamepadButton.A)).toBe(true);
+    expect(input.getJustPressedButtons()).toEqual([GamepadButton.A]);
+    expect(input.getAxis(GamepadAxis.LeftX)).toBe(1);
+    expect(input.getAxis(GamepadAxis.LeftY)).toBe(0);
+  });
+
+  it('only exposes the raw layout of non-standard pads', () => {
+    const input = new GamepadInput({ getGamepads: () => [createPad('', [0, 3], [0.5])] });
+
+    input.poll();
+
+    expect(input.isConnected()).toBe(true);
+    expect(input.getMapping()).toBe('');
+    expect(input.isStandardMapping()).toBe(false);
+    expect(input.isButtonPressed(GamepadButton.A)).toBe(false);
+    expect(input.getJustPressedButtons()).toEqual([]);
+    expect(input.getRawAxis(GamepadAxis.LeftX)).toBe(0);
+    expect(input.getStick('left')).toEqual({ x: 0, y: 0 });
+    expect(input.isAnyButtonPressed()).toBe(true);
+
+    const raw = input.getRawState()!;
+    expect(raw.mapping).toBe('');
+    expect(raw.pressed).toEqual([0, 3]);
+    expect(raw.justPressed).toEqual([0, 3]);
+    expect(raw.buttonValues[3]).toBe(1);
+    expect(raw.axes).toEqual([0.5]);
+    expect(input.getRawState(1)).toBeUndefined();
+  });
+
+  it('releases held buttons and zeroes axes when a pad disconnects', () => {
+    let pads: GamepadLike[] = [createPad('standard', [GamepadButton.A, GamepadButton.B], [1, 0, 0, 0])];
+    const disconnected = vi.fn();
+    const events = new EventBus<GamepadEvents>();
+    events.on('gamepad:disconnected', disconnected);
+    const input = new GamepadInput({ getGamepads: () => pads, events });
+
+    input.poll();
+    pads = [];
+    input.poll();
+
+    expect(disconnected.mock.calls[0]?.[0]).toEqual({ index: 0, id: 'Test pad', mapping: 'standard' });
+    expect(input.isConnected()).toBe(false);
+    expect(input.getConnectedPads()).toEqual([]);
+    expect(input.isButtonPressed(GamepadButton.A)).toBe(false);
+    expect(input.isButtonJustReleased(GamepadButton.A)).toBe(true);
+    expect(input.isButtonJustReleased(GamepadButton.B)).toBe(true);
+    expect(input.getButtonValue(GamepadButton.A)).toBe(0);
+    expect(input.getAxis(GamepadAxis.LeftX)).toBe(0);
+    expect(input.isAnyButtonPressed()).toBe(false);
+
+    input.poll();
+
+    expect(input.isButtonJustReleased(GamepadButton.A)).toBe(false);
+    expect(input.getRawState()).toBeUndefined();
+    expect(disconnected).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats a throwing getGamepads as no pads and warns once', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const input = new GamepadInput({
+      getGamepads: () => {
+        throw new Error('blocked by permissions policy');
+      },
+    });
+
+    expect(() => {
+      input.poll();
+      input.poll();
+    }).not.toThrow();
+
+    expect(input.getConnectedPads()).toEqual([]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
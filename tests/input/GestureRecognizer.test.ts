@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { InputManager, SYNTHETIC_POINTER_ID } from '../../src/input/InputManager';
+
+function createInput(clock: { now: number }): InputManager {
+  return new InputManager({ now: () => clock.now, getGamepads: () => [] });
+}
+
+describe('GestureRecognizer', () => {
+  it('recognizes drags from injected mouse changes', () => {
+    const clock = { now: 0 };
+    const input = createInput(clock);
+
+    input.inject(['m', 10, 10]);
+    input.inject(['b', 1]);
+    input.beginFrame();
+    expect(input.isPointerJustPressed(SYNTHETIC_POINTER_ID)).toBe(true);
+
+    input.inject(['m', 40, 10]);
+    input.beginFrame();
+    expect(input.gestures.getDrag()).toMatchObject({
+      pointerId: SYNTHETIC_POINTER_ID,
+      pointerType: 'mouse',
+      buttons: 1,
+      startX: 10,
+      x: 40,
+    });
+
+    input.inject(['b', 0]);
+    input.beginFrame();
+    expect(input.gestures.isDragging()).toBe(false);
+    expect(input.gestures.getEndedDrags()).toHaveLength(1);
+  });
+
+  it('recognizes double-clicks and long presses from injected mouse changes', () => {
+    const clock = { now: 0 };
+    const input = createInput(clock);
+
+    for (let click = 0; click < 2; click++) {
+      input.inject(['b', 1]);
+      input.beginFrame();
+      clock.now += 50;
+      input.inject(['b', 0]);
+      input.beginFrame();
+      clock.now += 50;
+    }
+    expect(input.gestures.getDoubleClick()).not.toBeNull();
+
+    clock.now += 1000;
+    input.inject(['b', 1]);
+    input.beginFrame();
+    clock.now += 1000;
+    input.beginFrame();
+    expect(input.gestures.getLongPress()).not.toBeNull();
+  });
+
+  it('times gestures by the frame time by default', () => {
+    const input = new InputManager({ getGamepads: () => [] });
+
+    input.inject(['b', 1]);
+    input.beginFrame(1000);
+    input.beginFrame(1499);
+    expect(input.gestures.getLongPress()).toBeNull();
+
+    input.beginFrame(1500);
+    expect(input.gestures.getLongPress()).not.toBeNull();
+  });
+});
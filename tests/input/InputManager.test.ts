@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InputManager, MouseButton, SYNTHETIC_POINTER_ID } from '../../src/input/InputManager';
+import { InputReplay } from '../../src/input/InputReplay';
+
+/** Canvas stand-in that records listeners so tests can dispatch events */
+class FakeCanvas {
+  public style = { touchAction: '' };
+  public clientHeight = 600;
+  private listeners = new Map<string, (event: unknown) => void>();
+
+  addEventListener(type: string, listener: (event: unknown) => void): void {
+    this.listeners.set(type, listener);
+  }
+
+  removeEventListener(type: string): void {
+    this.listeners.delete(type);
+  }
+
+  getBoundingClientRect(): { left: number; top: number } {
+    return { left: 0, top: 0 };
+  }
+
+  setPointerCapture(): void {}
+
+  dispatch(type: string, event: object): void {
+    this.listeners.get(type)?.(event);
+  }
+
+  pointer(type: string, init: Partial<PointerEvent>): void {
+    this.dispatch(type, {
+      pointerId: 1,
+      pointerType: 'mouse',
+      isPrimary: true,
+      clientX: 0,
+      clientY: 0,
+      buttons: 0,
+      pressure: 0,
+      ...init,
+    });
+  }
+}
+
+function setup() {
+  const canvas = new FakeCanvas();
+  const input = new InputManager({ getGamepads: () => [] });
+  input.listen(canvas as unknown as HTMLCanvasElement);
+  return { canvas, input };
+}
+
+describe('InputManager pointers', () => {
+  beforeEach(() => {
+    vi.stubGlobal('HTMLCanvasElement', FakeCanvas);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('tracks every pointer with its position and pressure', () => {
+    const { canvas, input } = setup();
+
+    canvas.pointer('pointermove', { pointerId: 1, clientX: 5, clientY: 5 });
+    canvas.pointer('pointerdown', { pointerId: 2, pointerType: 'touch', clientX: 10, clientY: 20, buttons: 1, pressure: 0.75 });
+    canvas.pointer('pointerdown', { pointerId: 3, pointerType: 'touch', isPrimary: false, clientX: 30, clientY: 40, buttons: 1, pressure: 0.25 });
+
+    expect(input.getPointers().map(pointer => [pointer.id, pointer.type, pointer.x, pointer.y, pointer.down])).toEqual([
+      [1, 'mouse', 5, 5, false],
+      [2, 'touch', 10, 20, true],
+      [3, 'touch', 30, 40, true],
+    ]);
+    expect(input.getPointerPressure(2)).toBe(0.75);
+    expect(input.getPointerPressure(3)).toBe(0.25);
+    expect(input.getPointerPressure(1)).toBe(0);
+    expect(input.getPointerDownCount()).toBe(2);
+  });
+
+  it('reports presses and releases per pointer for one frame', () => {
+    const { canvas, input } = setup();
+
+    canvas.pointer('pointerdown', { pointerId: 2, pointerType: 'touch', buttons: 1, pressure: 0.5 });
+    canvas.pointer('pointerdown', { pointerId: 3, pointerType: 'touch', isPrimary: false, buttons: 1, pressure: 0.5 });
+    input.beginFrame();
+
+    expect(input.isPointerJustPressed(2)).toBe(true);
+    expect(input.getJustPressedPointers().map(pointer => pointer.id)).toEqual([2, 3]);
+
+    canvas.pointer('pointerup', { pointerId: 3, pointerType: 'touch', isPrimary: false, clientX: 7 });
+    input.beginFrame();
+
+    expect(input.isPointerJustPressed(2)).toBe(false);
+    expect(input.isPointerDown(2)).toBe(true);
+    expect(input.isPointerJustReleased(3)).toBe(true);
+    expect(input.getJustReleasedPointers()).toMatchObject([{ id: 3, x: 7, down: false, pressure: 0 }]);
+    expect(input.getPointer(3)).toMatchObject({ id: 3, down: false });
+
+    input.beginFrame();
+    expect(input.isPointerJustReleased(3)).toBe(false);
+    expect(input.getPointer(3)).toBeUndefined();
+  });
+
+  it('releases and forgets cancelled pointers', () => {
+    const { canvas, input } = setup();
+
+    canvas.pointer('pointerdown', { pointerId: 2, pointerType: 'touch', buttons: 1, pressure: 0.5 });
+    input.beginFrame();
+    canvas.pointer('pointercancel', { pointerId: 2, pointerType: 'touch' });
+    input.beginFrame();
+
+    expect(input.isPointerJustReleased(2)).toBe(true);
+    expect(input.getPointers()).toEqual([]);
+    expect(input.getPointerDownCount()).toBe(0);
+    expect(input.isMouseButtonPressed(MouseButton.Left)).toBe(false);
+    expect(input.isMouseButtonJustReleased(MouseButton.Left)).toBe(true);
+  });
+
+  it('lets a pressed primary pointer own the mouse state until it is released', () => {
+    const { canvas, input } = setup();
+
+    canvas.pointer('pointerdown', { pointerId: 2, pointerType: 'touch', clientX: 10, clientY: 10, buttons: 1, pressure: 0.5 });
+    canvas.pointer('pointermove', { pointerId: 1, clientX: 90, clientY: 90 });
+    canvas.pointer('pointermove', { pointerId: 2, pointerType: 'touch', clientX: 20, clientY: 10, buttons: 1, pressure: 0.5 });
+
+    expect(input.getMousePosition()).toEqual({ x: 20, y: 10 });
+    expect(input.isMouseButtonPressed(MouseButton.Left)).toBe(true);
+    expect(input.getPrimaryPointerEvent()).toMatchObject({ pointerId: 2 });
+
+    canvas.pointer('pointerup', { pointerId: 2, pointerType: 'touch', clientX: 20, clientY: 10 });
+    canvas.pointer('pointermove', { pointerId: 1, clientX: 90, clientY: 90 });
+
+    expect(input.getMousePosition()).toEqual({ x: 90, y: 90 });
+    expect(input.isMouseButtonPressed(MouseButton.Left)).toBe(false);
+  });
+
+  it('keeps a held mouse button when a touch starts', () => {
+    const { canvas, input } = setup();
+
+    canvas.pointer('pointerdown', { pointerId: 1, clientX: 5, clientY: 5, buttons: 1, pressure: 0.5 });
+    canvas.pointer('pointerdown', { pointerId: 2, pointerType: 'touch', clientX: 50, clientY: 50, buttons: 1, pressure: 0.5 });
+    canvas.pointer('pointerup', { pointerId: 2, pointerType: 'touch', clientX: 50, clientY: 50 });
+
+    expect(input.getMousePosition()).toEqual({ x: 5, y: 5 });
+    expect(input.isMouseButtonPressed(MouseButton.Left)).toBe(true);
+  });
+
+  it('scales wheel deltas to stage coordinates', () => {
+    const { canvas, input } = setup();
+    input.setCoordinateTransform(2, 0, 0);
+
+    canvas.dispatch('wheel', { deltaX: 10, deltaY: -40, deltaMode: 0, preventDefault: () => {} });
+    canvas.dispatch('wheel', { deltaX: 0, deltaY: 1, deltaMode: 1, preventDefault: () => {} });
+    input.beginFrame();
+
+    expect(input.getWheelDelta()).toEqual({ x: 5, y: -12 });
+  });
+
+  it('ignores live pointer and wheel events during a replay', () => {
+    const { canvas, input } = setup();
+    canvas.pointer('pointermove', { pointerId: 4, pointerType: 'pen', clientX: 5, clientY: 5 });
+    input.setSource(new InputReplay({ version: 1, initial: [['m', 10, 10]], frames: 2, changes: [] }));
+
+    canvas.pointer('pointerdown', { pointerId: 2, pointerType: 'touch', buttons: 1, pressure: 0.5 });
+    canvas.pointer('pointerleave', { pointerId: SYNTHETIC_POINTER_ID });
+    canvas.dispatch('wheel', { deltaX: 0, deltaY: 10, deltaMode: 0, preventDefault: () => {} });
+    input.beginFrame();
+
+    expect(input.getPointers().map(pointer => pointer.id)).toEqual([SYNTHETIC_POINTER_ID]);
+    expect(input.getMousePosition()).toEqual({ x: 10, y: 10 });
+    expect(input.getWheelDelta()).toEqual({ x: 0, y: 0 });
+  });
+});
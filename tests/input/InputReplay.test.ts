@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessEngine } from '../../src/core/HeadlessEngine';
+import { InputManager, MouseButton, SYNTHETIC_POINTER_ID, type InputChange } from '../../src/input/InputManager';
+import { InputRecorder } from '../../src/input/InputRecorder';
+import { InputReplay } from '../../src/input/InputReplay';
+
+function createInput(clock: { now: number }): InputManager {
+  return new InputManager({ now: () => clock.now, getGamepads: () => [] });
+}
+
+describe('InputReplay', () => {
+  it('recognizes the same drags on replay as live', () => {
+    const clock = { now: 0 };
+    const live = createInput(clock);
+    const recorder = new InputRecorder(live);
+    const script: InputChange[][] = [
+      [['m', 0, 0], ['b', 1]],
+      [['m', 20, 0]],
+      [['m', 30, 5]],
+      [['b', 0]],
+    ];
+    const dragPositions = (input: InputManager) => {
+      const drag = input.gestures.getDrag();
+      return drag ? [drag.x, drag.y] : null;
+    };
+
+    recorder.start();
+    const liveTrace = script.map(changes => {
+      changes.forEach(change => live.inject(change));
+      live.beginFrame();
+      return dragPositions(live);
+    });
+    const recording = recorder.stop();
+
+    const replayed = createInput(clock);
+    replayed.setSource(new InputReplay(recording));
+    const replayTrace = script.map(() => {
+      replayed.beginFrame();
+      return dragPositions(replayed);
+    });
+
+    expect(liveTrace).toEqual([null, [20, 0], [30, 5], null]);
+    expect(replayTrace).toEqual(liveTrace);
+    expect(replayed.isMouseButtonPressed(MouseButton.Left)).toBe(false);
+  });
+
+  it('recognizes timed gestures at the same frames when replayed on an engine', () => {
+    const script: InputChange[][] = [
+      [['b', 1]], [['b', 0]], [['b', 1]], [['b', 0]],
+      [['b', 1]], [], [], [], [], [['b', 0]],
+    ];
+    const gestures = (engine: HeadlessEngine) => {
+      const { gestures } = engine.input;
+      return gestures.getDoubleClick() ? 'double' : gestures.getLongPress() ? 'long' : null;
+    };
+
+    const live = new HeadlessEngine();
+    const recorder = new InputRecorder(live.input);
+    recorder.start();
+    const liveTrace = script.map(changes => {
+      changes.forEach(change => live.input.inject(change));
+      live.tick(0.125);
+      return gestures(live);
+    });
+
+    const replayed = new HeadlessEngine();
+    replayed.input.setSource(new InputReplay(recorder.stop()));
+    const replayTrace = script.map(() => {
+      replayed.tick(0.125);
+      return gestures(replayed);
+    });
+
+    expect(liveTrace).toEqual([null, null, null, 'double', null, null, null, null, 'long', null]);
+    expect(replayTrace).toEqual(liveTrace);
+  });
+
+  it('starts a replay with the recorded buttons held, without a press edge', () => {
+    const input = createInput({ now: 0 });
+
+    input.setSource(new InputReplay({ version: 1, initial: [['m', 5, 5], ['b', 1]], frames: 1, changes: [] }));
+    input.beginFrame();
+
+    expect(input.isPointerDown(SYNTHETIC_POINTER_ID)).toBe(true);
+    expect(input.isPointerJustPressed(SYNTHETIC_POINTER_ID)).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Component, createComponentType } from '../../src/ecs/Component';
+import { World } from '../../src/ecs/World';
+import { ComponentSerializer } from '../../src/serialization/ComponentSerializer';
+import { EntitySerializer } from '../../src/serialization/EntitySerializer';
+
+class Health extends Component {
+  constructor(public current: number = 10, public max: number = 10) {
+    super();
+  }
+
+  getType(): string {
+    return 'Health';
+  }
+}
+
+const Position = createComponentType('Position', () => ({ x: 0, y: 0 }));
+
+describe('EntitySerializer', () => {
+  beforeEach(() => {
+    ComponentSerializer.register('Health', ({ data }) => new Health(data.current, data.max));
+    ComponentSerializer.registerData(Position);
+  });
+
+  afterEach(() => {
+    ComponentSerializer.clear();
+    EntitySerializer.clear();
+  });
+
+  it('round-trips components and children', () => {
+    const world = new World();
+    const root = world.createEntity('tower');
+    root.addComponent(new Health(4, 12));
+    root.addData(Position, { x: 3, y: 7 });
+    const child = world.createEntity('turret');
+    child.addComponent(new Health(1));
+    child.addData(Position, { x: 1 });
+    child.setParent(root);
+
+    const json = EntitySerializer.toJSON(root);
+    const target = new World();
+    const [restored] = EntitySerializer.fromJSON(target, json);
+
+    expect(restored!.name).toBe('tower');
+    expect(restored!.getComponent<Health>('Health')).toMatchObject({ current: 4, max: 12 });
+    expect(restored!.getData(Position)).toEqual({ x: 3, y: 7 });
+
+    const [restoredChild] = restored!.getChildren();
+    expect(restoredChild!.name).toBe('turret');
+    expect(restoredChild!.getComponent<Health>('Health')).toMatchObject({ current: 1 });
+    expect(restoredChild!.getData(Position)).toEqual({ x: 1, y: 0 });
+    expect(target.query(['Health']).size).toBe(2);
+  });
+
+  it('preserves ids and generations when asked', () => {
+    const world = new World();
+    const entity = world.createEntity('saved', { id: 5, generation: 2 });
+    entity.addComponent(new Health());
+
+    const target = new World();
+    const restored = EntitySerializer.deserialize(target, EntitySerializer.serialize(entity), { preserveIds: true });
+
+    expect(restored!.getHandle()).toEqual({ id: 5, generation: 2 });
+    expect(target.resolve({ id: 5, generation: 2 })).toBe(restored);
+  });
+
+  it('restores inactive entities as inactive', () => {
+    const world = new World();
+    const entity = world.createEntity();
+    entity.addComponent(new Health());
+    entity.active = false;
+
+    const target = new World();
+    const restored = EntitySerializer.deserialize(target, EntitySerializer.serialize(entity));
+
+    expect(restored!.active).toBe(false);
+    expect(target.query(['Health']).size).toBe(0);
+  });
+
+  it('skips unknown component types unless strict', () => {
+    const world = new World();
+    const serialized = EntitySerializer.serialize(world.createEntity());
+    serialized.components.push({ type: 'Unknown', data: {} });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(EntitySerializer.deserialize(new World(), serialized)!.getAllComponents()).toEqual([]);
+    expect(() => EntitySerializer.deserialize(new World(), serialized, { strict: true })).toThrow();
+    warn.mockRestore();
+  });
+
+  it('clones an entity into the same world', () => {
+    const world = new World();
+    const entity = world.createEntity('original');
+    entity.addComponent(new Health(2));
+
+    const copy = EntitySerializer.clone(world, entity);
+
+    expect(copy).not.toBe(entity);
+    expect(copy!.id).not.toBe(entity.id);
+    expect(copy!.getComponent<Health>('Health')!.current).toBe(2);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { InteractableComponent } from '../../src/components/InteractableComponent';
+import { RenderableComponent } from '../../src/components/RenderableComponent';
+import { TransformComponent } from '../../src/components/TransformComponent';
+import { World } from '../../src/ecs/World';
+import { MouseButton, type InputManagerLike } from '../../src/input/InputManager';
+import { InteractionSystem } from '../../src/systems/InteractionSystem';
+
+class FakeInput implements InputManagerLike {
+  public x = 0;
+  public y = 0;
+  public clicked = false;
+
+  isPressed(): boolean {
+    return false;
+  }
+
+  isJustPressed(): boolean {
+    return false;
+  }
+
+  isJustReleased(): boolean {
+    return false;
+  }
+
+  isMouseButtonPressed(): boolean {
+    return this.clicked;
+  }
+
+  isMouseButtonJustPressed(button: MouseButton): boolean {
+    return this.clicked && button === MouseButton.Left;
+  }
+
+  isMouseButtonJustReleased(): boolean {
+    return false;
+  }
+
+  getMousePosition(): { x: number; y: number } {
+    return { x: this.x, y: this.y };
+  }
+
+  beginFrame(): void {}
+
+  endFrame(): void {}
+}
+
+function setup() {
+  const world = new World();
+  const input = new FakeInput();
+  world.addSystem(new InteractionSystem(world, input));
+  const log: string[] = [];
+
+  const spawn = (name: string, x: number, options: { zIndex?: number; passThrough?: boolean } = {}) => {
+    const entity = world.createEntity(name);
+    entity.addComponent(new TransformComponent(x, 0));
+    if (options.zIndex !== undefined) {
+      entity.addComponent(new RenderableComponent({ zIndex: options.zIndex }));
+    }
+    return entity.addComponent(new InteractableComponent(10, 10, {
+      passThrough: options.passThrough,
+      onPointerEnter: () => log.push(`${name} enter`),
+      onPointerLeave: () => log.push(`${name} leave`),
+      onHover: () => log.push(`${name} hover`),
+      onClick: () => log.push(`${name} click`),
+    }));
+  };
+
+  const frame = (x: number, y: number, clicked = false) => {
+    log.length = 0;
+    input.x = x;
+    input.y = y;
+    input.clicked = clicked;
+    world.update(1 / 60);
+    return [...log];
+  };
+
+  return { spawn, frame };
+}
+
+describe('InteractionSystem', () => {
+  it('fires leave, enter, hover and click in that order', () => {
+    const { spawn, frame } = setup();
+    spawn('a', 0);
+    spawn('b', 20);
+
+    expect(frame(5, 5)).toEqual(['a enter', 'a hover']);
+    expect(frame(6, 5)).toEqual(['a hover']);
+    expect(frame(25, 5, true)).toEqual(['a leave', 'b enter', 'b hover', 'b click']);
+    expect(frame(50, 5)).toEqual(['b leave']);
+  });
+
+  it('only dispatches to the topmost hit by zIndex', () => {
+    const { spawn, frame } = setup();
+    spawn('top', 0, { zIndex: 5 });
+    spawn('bottom', 0, { zIndex: 1 });
+
+    expect(frame(5, 5, true)).toEqual(['top enter', 'top hover', 'top click']);
+  });
+
+  it('lets later entities win at equal zIndex', () => {
+    const { spawn, frame } = setup();
+    spawn('first', 0);
+    spawn('second', 0);
+
+    expect(frame(5, 5, true)).toEqual(['second enter', 'second hover', 'second click']);
+  });
+
+  it('forwards events through passThrough hits to the one underneath', () => {
+    const { spawn, frame } = setup();
+    spawn('overlay', 0, { zIndex: 3, passThrough: true });
+    spawn('button', 0, { zIndex: 2 });
+    spawn('background', 0, { zIndex: 1 });
+
+    expect(frame(5, 5, true)).toEqual([
+      'overlay enter', 'button enter',
+      'overlay hover', 'button hover',
+      'overlay click', 'button click',
+    ]);
+  });
+
+  it('skips disabled interactables', () => {
+    const { spawn, frame } = setup();
+    const top = spawn('top', 0, { zIndex: 2 });
+    spawn('bottom', 0, { zIndex: 1 });
+
+    top.disable();
+    expect(frame(5, 5, true)).toEqual(['bottom enter', 'bottom hover', 'bottom click']);
+
+    top.enable();
+    expect(frame(5, 5, true)).toEqual(['bottom leave', 'top enter', 'top hover', 'top click']);
+  });
+});
@@ -0,0 +1,108 @@
+import { Container } from 'pixi.js';
+import { describe, expect, it } from 'vitest';
+import { RenderableComponent } from '../../src/components/RenderableComponent';
+import { TransformComponent } from '../../src/components/TransformComponent';
+import { World } from '../../src/ecs/World';
+import { RenderSyncSystem } from '../../src/systems/RenderSyncSystem';
+
+function setup() {
+  const world = new World();
+  const container = new Container();
+  const system = world.addSystem(new RenderSyncSystem(world, container)) as RenderSyncSystem;
+  return { world, container, system };
+}
+
+function trackedCount(system: RenderSyncSystem): number {
+  return (system as unknown as { _renderables: Map<unknown, unknown> })._renderables.size;
+}
+
+describe('RenderSyncSystem', () => {
+  it('attaches renderables added before and after the system', () => {
+    const world = new World();
+    const early = world.createEntity('early').addComponent(new RenderableComponent());
+    const container = new Container();
+    world.addSystem(new RenderSyncSystem(world, container));
+
+    const late = world.createEntity('late').addComponent(new RenderableComponent());
+
+    expect(container.children).toEqual([early.graphics, late.graphics]);
+    expect(container.sortableChildren).toBe(true);
+  });
+
+  it('detaches graphics when the renderable is removed', () => {
+    const { world, container, system } = setup();
+    const entity = world.createEntity();
+    const renderable = entity.addComponent(new RenderableComponent());
+
+    entity.removeComponent(renderable);
+
+    expect(container.children).toEqual([]);
+    expect(trackedCount(system)).toBe(0);
+  });
+
+  it('syncs the transform and render properties in the render phase', () => {
+    const { world } = setup();
+    const entity = world.createEntity();
+    const transform = entity.addComponent(new TransformComponent(10, 20));
+    const renderable = entity.addComponent(new RenderableComponent());
+
+    transform.setRotation(Math.PI / 2);
+    renderable.zIndex = 5;
+    renderable.visible = false;
+    renderable.alpha = 0.25;
+    renderable.tint = 0x00ff00;
+    world.render(1);
+
+    const graphics = renderable.graphics;
+    expect(graphics.position.x).toBe(10);
+    expect(graphics.position.y).toBe(20);
+    expect(graphics.rotation).toBeCloseTo(Math.PI / 2);
+    expect(graphics.zIndex).toBe(5);
+    expect(graphics.visible).toBe(false);
+    expect(graphics.alpha).toBe(0.25);
+    expect(graphics.tint).toBe(0x00ff00);
+  });
+
+  it('hides graphics of entities with an inactive ancestor', () => {
+    const { world } = setup();
+    const parent = world.createEntity('parent');
+    const child = world.createEntity('child');
+    child.setParent(parent);
+    const renderable = child.addComponent(new RenderableComponent());
+
+    parent.active = false;
+    world.render(1);
+    expect(renderable.graphics.visible).toBe(false);
+
+    parent.active = true;
+    world.render(1);
+    expect(renderable.graphics.visible).toBe(true);
+  });
+
+  it('does not keep graphics of destroyed entities', () => {
+    const { world, container, system } = setup();
+    const parent = world.createEntity('parent');
+    parent.addComponent(new RenderableComponent());
+    const child = world.createEntity('child');
+    child.addComponent(new RenderableComponent());
+    child.setParent(parent);
+    world.createEntity('kept').addComponent(new RenderableComponent());
+
+    parent.destroy();
+    world.render(1);
+
+    expect(container.children).toHaveLength(1);
+    expect(trackedCount(system)).toBe(1);
+  });
+
+  it('releases all graphics when removed from the world', () => {
+    const { world, container, system } = setup();
+    world.createEntity().addComponent(new RenderableComponent());
+
+    world.removeSystem(system);
+    world.createEntity().addComponent(new RenderableComponent());
+
+    expect(container.children).toEqual([]);
+    expect(trackedCount(system)).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TransformComponent } from '../../src/components/TransformComponent';
+import { World } from '../../src/ecs/World';
+import { TransformSystem } from '../../src/systems/TransformSystem';
+
+function createChain(world: World, depth: number): TransformComponent[] {
+  const transforms: TransformComponent[] = [];
+  let parent = null;
+  for (let i = 0; i < depth; i++) {
+    const entity = world.createEntity(`node ${i}`);
+    transforms.push(entity.addComponent(new TransformComponent(10, 0)));
+    entity.setParent(parent);
+    parent = entity;
+  }
+  return transforms;
+}
+
+describe('TransformSystem', () => {
+  it('composes world positions from the root down', () => {
+    const world = new World();
+    world.addSystem(new TransformSystem(world));
+    const [root, middle, leaf] = createChain(world, 3);
+    root!.setRotation(Math.PI / 2);
+
+    world.update(1);
+
+    expect(middle!.getWorldPosition().x).toBeCloseTo(10);
+    expect(middle!.getWorldPosition().y).toBeCloseTo(10);
+    expect(leaf!.getWorldPosition().y).toBeCloseTo(20);
+  });
+
+  it('propagates a parent change to its descendants', () => {
+    const world = new World();
+    world.addSystem(new TransformSystem(world));
+    const [root, , leaf] = createChain(world, 3);
+    world.update(1);
+
+    root!.x = 100;
+    world.update(1);
+
+    expect(leaf!.getWorldPosition().x).toBeCloseTo(120);
+  });
+
+  it('skips entities without transforms when resolving the parent transform', () => {
+    const world = new World();
+    world.addSystem(new TransformSystem(world));
+    const root = world.createEntity('root');
+    const rootTransform = root.addComponent(new TransformComponent(5, 5));
+    const group = world.createEntity('group');
+    group.setParent(root);
+    const leaf = world.createEntity('leaf');
+    const leafTransform = leaf.addComponent(new TransformComponent(1, 1));
+    leaf.setParent(group);
+
+    world.update(1);
+    rootTransform.y = 50;
+    world.update(1);
+
+    expect(leafTransform.getWorldPosition()).toEqual({ x: 6, y: 51 });
+  });
+
+  it('does not recompute or walk ancestors of unchanged transforms', () => {
+    const world = new World();
+    world.addSystem(new TransformSystem(world));
+    const transforms = createChain(world, 20);
+    world.update(1);
+
+    const recomputed = transforms.map(transform => vi.spyOn(transform, 'updateFromParent'));
+    const walks = transforms.map(transform => vi.spyOn(transform, 'getParentTransform'));
+    world.update(1);
+
+    expect(recomputed.every(spy => spy.mock.results.every(result => result.value === false))).toBe(true);
+    expect(recomputed.every(spy => spy.mock.calls.length === 1)).toBe(true);
+    expect(walks.every(spy => spy.mock.calls.length === 0)).toBe(true);
+
+    transforms[15]!.x = 0;
+    world.update(1);
+
+    const changed = recomputed.map(spy => spy.mock.results[spy.mock.results.length - 1]!.value);
+    expect(changed.indexOf(true)).toBe(15);
+    expect(changed.slice(15).every(Boolean)).toBe(true);
+  });
+
+  it('walks from its own query instead of every root entity', () => {
+    const world = new World();
+    world.addSystem(new TransformSystem(world));
+    for (let i = 0; i < 50; i++) {
+      world.createEntity(`prop ${i}`);
+    }
+    const [, leaf] = createChain(world, 2);
+    const roots = vi.spyOn(world, 'getRootEntities');
+    const all = vi.spyOn(world, 'getAllEntities');
+
+    world.update(1);
+
+    expect(leaf!.getWorldPosition().x).toBe(20);
+    expect(roots).not.toHaveBeenCalled();
+    expect(all).not.toHaveBeenCalled();
+  });
+});